@@ -7,6 +7,7 @@ import { database } from '../../index';
 import { version } from '../../package.json';
 import { loadConfig, getDatabase, formatBytes } from '../utils/config';
 import { confirmAction } from '../utils/prompts';
+import { writeChunk, closeStream, indentJson, toCsvRow, writeBackupTable } from '../utils/stream';
 
 export const dbCommand = new Command().name('db');
 
@@ -14,17 +15,20 @@ dbCommand
   .command('test')
   .description('Test database connection and show basic stats')
   .option('-c, --config <path>', 'Path to config file', 'zero.config.ts')
+  .option('-t, --table <name>', 'Table to count records in', 'migrations')
   .action(async (options) => {
     const spinner = ora('Testing database connection...').start();
 
     try {
       const db = await getDatabase(options.config);
+      const total = await db.count(options.table);
       
       spinner.succeed(chalk.green('✅ Database connection successful'));
       
       console.log(chalk.bold('\n📊 Database Stats:'));
       console.log(chalk.cyan('  Adapter:'), chalk.white((db as any).constructor.name));
       console.log(chalk.cyan('  Status:'), chalk.green('Connected'));
+      console.log(chalk.cyan(`  ${options.table}:`), chalk.white(`${total} records`));
       
       try {
         const metrics = db.getMetrics();
@@ -170,30 +174,31 @@ dbCommand
         tables = ['users', 'products', 'orders', 'migrations', 'migration_test', 'test_backup'];
       }
 
-      const backupData: any = {
-        version: version,
-        timestamp: new Date().toISOString(),
-        config: config,
-        data: {} as Record<string, any[]>
-      };
+      // Rows are streamed straight into the file so large tables never sit in memory
+      const out = fs.createWriteStream(backupFile);
+      const header = JSON.stringify({ version: version, timestamp: new Date().toISOString(), config: config }, null, 2);
+      await writeChunk(out, header.slice(0, -2) + ',\n  "data": {');
 
+      // Entries written and tables read completely differ when a stream fails part way through a table
+      const backedUp: string[] = [];
+      const incomplete: string[] = [];
+      let entries = 0;
       for (const table of tables) {
-        try {
-          const records = await db.select(table);
-          if (records.length > 0) {
-            backupData.data[table] = records;
-          }
-        } catch (err) {
-          // Table doesn't exist or can't be accessed
-        }
+        // Tables that don't exist or can't be accessed write nothing and are skipped
+        const { rows, error } = await writeBackupTable(out, db, table, entries === 0);
+        if (!rows) continue;
+        entries++;
+        (error ? incomplete : backedUp).push(table);
       }
 
-      fs.writeFileSync(backupFile, JSON.stringify(backupData, null, 2));
+      await writeChunk(out, entries ? '\n  }\n}' : '}\n}');
+      await closeStream(out);
 
       const fileSize = fs.statSync(backupFile).size;
       spinner.succeed(chalk.green(`✅ Backup created: ${backupFile}`));
       console.log(chalk.gray(`  Size: ${formatBytes(fileSize)}`));
-      console.log(chalk.gray(`  Tables: ${Object.keys(backupData.data).join(', ') || 'none'}`));
+      console.log(chalk.gray(`  Tables: ${backedUp.join(', ') || 'none'}`));
+      if (incomplete.length) console.log(chalk.yellow(`  Incomplete: ${incomplete.join(', ')}`));
 
       await db.close();
     } catch (error: any) {
@@ -266,13 +271,6 @@ dbCommand
 
     try {
       const db = await getDatabase(options.config);
-      const records = await db.select(options.table);
-
-      if (records.length === 0) {
-        spinner.warn(chalk.yellow(`⚠️  No records found in ${options.table}`));
-        await db.close();
-        return;
-      }
 
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
       const ext = options.format === 'csv' ? 'csv' : 'json';
@@ -284,26 +282,33 @@ dbCommand
         fs.mkdirSync(outputDir, { recursive: true });
       }
 
-      let content = '';
+      const out = fs.createWriteStream(outputFile);
+      let headers: string[] = [];
+      let count = 0;
 
-      if (options.format === 'csv') {
-        const headers = Object.keys(records[0]);
-        const csvRows = [
-          headers.join(','),
-          ...records.map((row: any) => headers.map(h => {
-            const val = row[h];
-            return typeof val === 'string' && val.includes(',') ? `"${val}"` : val;
-          }).join(','))
-        ];
-        content = csvRows.join('\n');
-      } else {
-        content = JSON.stringify(records, null, 2);
+      for await (const row of db.stream(options.table)) {
+        if (options.format === 'csv') {
+          if (count === 0) headers = Object.keys(row);
+          await writeChunk(out, (count === 0 ? headers.join(',') : '') + '\n' + toCsvRow(row, headers));
+        } else {
+          await writeChunk(out, (count === 0 ? '[\n' : ',\n') + indentJson(row, 1));
+        }
+        count++;
+        if (count % 10000 === 0) spinner.text = `Exporting ${options.table}... ${count} records`;
       }
 
-      fs.writeFileSync(outputFile, content);
+      if (count && options.format !== 'csv') await writeChunk(out, '\n]');
+      await closeStream(out);
+
+      if (count === 0) {
+        fs.unlinkSync(outputFile);
+        spinner.warn(chalk.yellow(`⚠️  No records found in ${options.table}`));
+        await db.close();
+        return;
+      }
 
       const fileSize = fs.statSync(outputFile).size;
-      spinner.succeed(chalk.green(`✅ Exported ${records.length} records to ${outputFile}`));
+      spinner.succeed(chalk.green(`✅ Exported ${count} records to ${outputFile}`));
       console.log(chalk.gray(`  Size: ${formatBytes(fileSize)}`));
       console.log(chalk.gray(`  Format: ${options.format.toUpperCase()}`));
 
@@ -65,8 +65,8 @@ replCommand
         } else if (cmd.startsWith('count ')) {
           const table = cmd.replace('count ', '').trim();
           try {
-            const records = await db.select(table);
-            console.log(chalk.bold(`\n${table}: ${records.length} records\n`));
+            const total = await db.count(table);
+            console.log(chalk.bold(`\n${table}: ${total} records\n`));
           } catch (err: any) {
             console.error(chalk.red(`Error: ${err.message}\n`));
           }
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { once } from 'events';
+import type { IDatabase } from '../../database';
+
+/**
+ * Writes a chunk and waits for the file stream to drain when its buffer is full.
+ */
+export async function writeChunk(out: fs.WriteStream, chunk: string): Promise<void> {
+  if (!out.write(chunk)) await once(out, 'drain');
+}
+
+export async function closeStream(out: fs.WriteStream): Promise<void> {
+  out.end();
+  await once(out, 'finish');
+}
+
+/**
+ * Formats a value exactly like `JSON.stringify(value, null, 2)` would at the given nesting depth.
+ */
+export function indentJson(value: any, depth: number): string {
+  const pad = '  '.repeat(depth);
+  return pad + JSON.stringify(value, null, 2).replace(/\n/g, '\n' + pad);
+}
+
+export function toCsvRow(row: any, headers: string[]): string {
+  return headers.map(h => {
+    const val = row[h];
+    return typeof val === 'string' && val.includes(',') ? `"${val}"` : val;
+  }).join(',');
+}
+
+export interface BackupTableResult {
+  /** Rows written, including those of a table whose stream failed part way. */
+  rows: number;
+  /** Why the table could not be read completely, if it couldn't. */
+  error?: unknown;
+}
+
+/**
+ * Streams a table into an open backup file as one `"table": [...]` entry of the `data` object.
+ * Empty tables write nothing. A failing stream still closes the entry it started, so the file
+ * stays valid JSON; callers check `rows` to know whether the next entry needs a separator.
+ */
+export async function writeBackupTable(out: fs.WriteStream, db: IDatabase, table: string, first: boolean): Promise<BackupTableResult> {
+  let rows = 0;
+  try {
+    for await (const row of db.stream(table)) {
+      await writeChunk(out, rows === 0 ? `${first ? '' : ','}\n    ${JSON.stringify(table)}: [\n` : ',\n');
+      await writeChunk(out, indentJson(row, 3));
+      rows++;
+    }
+  } catch (error) {
+    return { rows, error };
+  } finally {
+    if (rows) await writeChunk(out, '\n    ]');
+  }
+  return { rows };
+}
@@ -7,6 +7,7 @@ import fs from 'fs';
 import path from 'path';
 import { database } from '../index';
 import { version } from '../package.json';
+import { writeChunk, closeStream, indentJson, toCsvRow, writeBackupTable } from './utils/stream';
 
 const program = new Command();
 
@@ -227,17 +228,20 @@ export const zeroConfig = ${configObject};
 program.command('db:test')
   .description('Test database connection and show basic stats')
   .option('-c, --config <path>', 'Path to config file', 'zero.config.ts')
+  .option('-t, --table <name>', 'Table to count records in', 'migrations')
   .action(async (options) => {
     const spinner = ora('Testing database connection...').start();
 
     try {
       const db = await getDatabase(options.config);
+      const total = await db.count(options.table);
       
       spinner.succeed(chalk.green('✅ Database connection successful'));
       
       console.log(chalk.bold('\n📊 Database Stats:'));
       console.log(chalk.cyan('  Adapter:'), chalk.white((db as any).constructor.name));
       console.log(chalk.cyan('  Status:'), chalk.green('Connected'));
+      console.log(chalk.cyan(`  ${options.table}:`), chalk.white(`${total} records`));
       
       try {
         const metrics = db.getMetrics();
@@ -559,30 +563,31 @@ program.command('db:backup')
         tables = ['users', 'products', 'orders', 'migrations', 'migration_test', 'test_backup'];
       }
 
-      const backupData: any = {
-        version: version,
-        timestamp: new Date().toISOString(),
-        config: config,
-        data: {} as Record<string, any[]>
-      };
+      // Rows are streamed straight into the file so large tables never sit in memory
+      const out = fs.createWriteStream(backupFile);
+      const header = JSON.stringify({ version: version, timestamp: new Date().toISOString(), config: config }, null, 2);
+      await writeChunk(out, header.slice(0, -2) + ',\n  "data": {');
 
+      // Entries written and tables read completely differ when a stream fails part way through a table
+      const backedUp: string[] = [];
+      const incomplete: string[] = [];
+      let entries = 0;
       for (const table of tables) {
-        try {
-          const records = await db.select(table);
-          if (records.length > 0) {
-            backupData.data[table] = records;
-          }
-        } catch (err) {
-          // Table doesn't exist or can't be accessed
-        }
+        // Tables that don't exist or can't be accessed write nothing and are skipped
+        const { rows, error } = await writeBackupTable(out, db, table, entries === 0);
+        if (!rows) continue;
+        entries++;
+        (error ? incomplete : backedUp).push(table);
       }
 
-      fs.writeFileSync(backupFile, JSON.stringify(backupData, null, 2));
+      await writeChunk(out, entries ? '\n  }\n}' : '}\n}');
+      await closeStream(out);
 
       const fileSize = fs.statSync(backupFile).size;
       spinner.succeed(chalk.green(`✅ Backup created: ${backupFile}`));
       console.log(chalk.gray(`  Size: ${formatBytes(fileSize)}`));
-      console.log(chalk.gray(`  Tables: ${Object.keys(backupData.data).join(', ') || 'none'}`));
+      console.log(chalk.gray(`  Tables: ${backedUp.join(', ') || 'none'}`));
+      if (incomplete.length) console.log(chalk.yellow(`  Incomplete: ${incomplete.join(', ')}`));
 
       await db.close();
     } catch (error: any) {
@@ -795,8 +800,8 @@ program.command('repl')
         } else if (cmd.startsWith('count ')) {
           const table = cmd.replace('count ', '').trim();
           try {
-            const records = await db.select(table);
-            console.log(chalk.bold(`\n${table}: ${records.length} records\n`));
+            const total = await db.count(table);
+            console.log(chalk.bold(`\n${table}: ${total} records\n`));
           } catch (err: any) {
             console.error(chalk.red(`Error: ${err.message}\n`));
           }
@@ -835,13 +840,6 @@ program.command('db:export')
 
     try {
       const db = await getDatabase(options.config);
-      const records = await db.select(options.table);
-
-      if (records.length === 0) {
-        spinner.warn(chalk.yellow(`⚠️  No records found in ${options.table}`));
-        await db.close();
-        return;
-      }
 
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
       const ext = options.format === 'csv' ? 'csv' : 'json';
@@ -853,26 +851,33 @@ program.command('db:export')
         fs.mkdirSync(outputDir, { recursive: true });
       }
 
-      let content = '';
+      const out = fs.createWriteStream(outputFile);
+      let headers: string[] = [];
+      let count = 0;
 
-      if (options.format === 'csv') {
-        const headers = Object.keys(records[0]);
-        const csvRows = [
-          headers.join(','),
-          ...records.map((row: any) => headers.map(h => {
-            const val = row[h];
-            return typeof val === 'string' && val.includes(',') ? `"${val}"` : val;
-          }).join(','))
-        ];
-        content = csvRows.join('\n');
-      } else {
-        content = JSON.stringify(records, null, 2);
+      for await (const row of db.stream(options.table)) {
+        if (options.format === 'csv') {
+          if (count === 0) headers = Object.keys(row);
+          await writeChunk(out, (count === 0 ? headers.join(',') : '') + '\n' + toCsvRow(row, headers));
+        } else {
+          await writeChunk(out, (count === 0 ? '[\n' : ',\n') + indentJson(row, 1));
+        }
+        count++;
+        if (count % 10000 === 0) spinner.text = `Exporting ${options.table}... ${count} records`;
       }
 
-      fs.writeFileSync(outputFile, content);
+      if (count && options.format !== 'csv') await writeChunk(out, '\n]');
+      await closeStream(out);
+
+      if (count === 0) {
+        fs.unlinkSync(outputFile);
+        spinner.warn(chalk.yellow(`⚠️  No records found in ${options.table}`));
+        await db.close();
+        return;
+      }
 
       const fileSize = fs.statSync(outputFile).size;
-      spinner.succeed(chalk.green(`✅ Exported ${records.length} records to ${outputFile}`));
+      spinner.succeed(chalk.green(`✅ Exported ${count} records to ${outputFile}`));
       console.log(chalk.gray(`  Size: ${formatBytes(fileSize)}`));
       console.log(chalk.gray(`  Format: ${options.format.toUpperCase()}`));
 
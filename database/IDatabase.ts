@@ -1,19 +1,68 @@
 import { telemetry } from './telemetry';
+import { WhereClause, SelectOptions, ReadOptions, AggregateOptions, StreamOptions, PaginateOptions, Page, TableSchema, IndexOptions, RelationDefinition, TableOptions, ChangeEvent, UpdateOptions, CacheInvalidation } from './types';
+import { keysetQuery, toPage } from './query';
+import { QueryBuilder } from './queryBuilder';
+import { normalizeSchema, NormalizedSchema } from './schema';
+import { Model, InferSchema } from './model';
+import { ValidationError, FieldError } from './errors';
+import { IndexDefinition } from './indexes';
+import { normalizeRelation, relationColumns, relationKeys, attachRelated, includeTree, IncludeNode } from './relations';
+import { applyTableOptions, withDeleted } from './tableOptions';
+import { applyHooks } from './hooks';
+import { ChangeStream } from './changes';
+import { validateSchema, ValidationSchema } from '../functions/index';
 
-export type HookType = 'beforeInsert' | 'afterInsert' | 'beforeUpdate' | 'afterUpdate' | 'beforeDelete' | 'afterDelete';
-export type HookFunction = (table: string, data: any) => Promise<void> | void;
+export type HookType =
+  | 'beforeSelect' | 'afterSelect'
+  | 'beforeInsert' | 'afterInsert'
+  | 'beforeBulkInsert' | 'afterBulkInsert'
+  | 'beforeUpdate' | 'afterUpdate'
+  | 'beforeUpsert' | 'afterUpsert'
+  | 'beforeDelete' | 'afterDelete'
+  | 'beforeIncrement' | 'afterIncrement'
+  | 'beforeDecrement' | 'afterDecrement';
+
+/**
+ * A before-hook may return a replacement for its payload (`undefined` keeps it) or throw to cancel the call.
+ */
+export type HookFunction = (table: string, data: any) => any;
+
+/**
+ * Adapter callbacks used by `runTransaction`. `begin` returns the state carried by the
+ * transaction scope; `release` always runs last, even when `begin` fails.
+ */
+export interface TransactionHandlers {
+  begin(): Promise<Record<string, any>>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  release?(): Promise<void> | void;
+}
 
 /**
  * Defines the common interface that all database adapters must implement.
  */
 export abstract class IDatabase {
+  constructor() {
+    return applyHooks(applyTableOptions(this));
+  }
+
   protected hooks: Record<HookType, HookFunction[]> = {
+    beforeSelect: [],
+    afterSelect: [],
     beforeInsert: [],
     afterInsert: [],
+    beforeBulkInsert: [],
+    afterBulkInsert: [],
     beforeUpdate: [],
     afterUpdate: [],
+    beforeUpsert: [],
+    afterUpsert: [],
     beforeDelete: [],
     afterDelete: [],
+    beforeIncrement: [],
+    afterIncrement: [],
+    beforeDecrement: [],
+    afterDecrement: [],
   };
 
   /**
@@ -25,10 +74,309 @@ export abstract class IDatabase {
     }
   }
 
-  protected async runHooks(hook: HookType, table: string, data: any): Promise<void> {
+  /**
+   * Removes a hook registered with `on`.
+   */
+  public off(hook: HookType, fn: HookFunction): void {
+    if (this.hooks[hook]) {
+      this.hooks[hook] = this.hooks[hook].filter(h => h !== fn);
+    }
+  }
+
+  protected watchers: Set<ChangeStream> = new Set();
+  private _listening: Promise<void> = Promise.resolve();
+  private _listeningActive: boolean = false;
+
+  /**
+   * Subscribes to `{ op, table, before, after, ts }` events for writes to `table` (every table when omitted),
+   * optionally only for rows matching `filter`. Events of a transaction are published once it commits.
+   */
+  public watch<T = any>(table?: string, filter?: WhereClause | null): ChangeStream<T> {
+    const stream: ChangeStream<T> = new ChangeStream<T>(table, filter, () => {
+      this.watchers.delete(stream);
+      if (this.watchers.size || !this._listeningActive) return;
+      this._listeningActive = false;
+      this._listening = this._listening.catch(() => {}).then(() => this.stopWatching());
+    });
+    this.watchers.add(stream);
+    if (!this._listeningActive) {
+      this._listeningActive = true;
+      this._listening = this._listening.catch(() => {}).then(() => this.startWatching());
+    }
+    stream.ready = this._listening;
+    stream.ready.catch(error => stream.fail(error));
+    return stream;
+  }
+
+  /**
+   * Whether writes to `table` have to be captured and published. Adapters with a native change feed return false.
+   */
+  protected capturesChanges(table: string): boolean {
+    for (const watcher of this.watchers) if (!watcher.table || watcher.table === table) return true;
+    return false;
+  }
+
+  /**
+   * Change events raised inside a transaction scope; they are published once the transaction commits.
+   */
+  protected pendingChanges: ChangeEvent[] | null = null;
+
+  protected async publishChanges(events: ChangeEvent[]): Promise<void> {
+    if (this.pendingChanges) {
+      this.pendingChanges.push(...events);
+      return;
+    }
+    try {
+      for (const event of events) await this.sendChange(event);
+    } catch (error) {
+      // The write itself succeeded; only the watchers of this instance can be told
+      for (const watcher of this.watchers) watcher.fail(error);
+    }
+  }
+
+  /**
+   * Hands an event to the change feed. In-process by default; adapters with a shared feed publish it there
+   * and receive it back through `startWatching`.
+   */
+  protected async sendChange(event: ChangeEvent): Promise<void> {
+    this.deliverChange(event);
+  }
+
+  protected deliverChange(event: ChangeEvent): void {
+    for (const watcher of this.watchers) if (watcher.matches(event)) watcher.push(event);
+  }
+
+  /**
+   * Subscribes to the adapter's change feed when the first stream opens; `stopWatching` runs after the last one closes.
+   */
+  protected async startWatching(): Promise<void> {}
+
+  protected async stopWatching(): Promise<void> {}
+
+  /**
+   * Closes every open change stream and waits for the feed to unsubscribe. Adapters call it from `close`.
+   */
+  protected async closeWatchers(): Promise<void> {
+    for (const watcher of Array.from(this.watchers)) watcher.close();
+    await this._listening.catch(() => {});
+  }
+
+  protected schemas: Record<string, NormalizedSchema> = {};
+
+  /**
+   * Registers the column layout of a table. SQL adapters create typed columns from it
+   * and decode values by their declared type.
+   */
+  public defineSchema(table: string, schema: TableSchema): void {
+    this.schemas[table] = normalizeSchema(table, schema);
+  }
+
+  protected validations: Record<string, ValidationSchema> = {};
+
+  /**
+   * Attaches a validation schema to a table. Inserts, bulk inserts, updates and sets that
+   * break it are rejected with a `ValidationError` before anything is written.
+   */
+  public defineValidation(table: string, schema: ValidationSchema): void {
+    this.validations[table] = schema;
+  }
+
+  /**
+   * Checks rows against the table's validation schema and throws one `ValidationError` listing
+   * every field error. Partial writes (updates) only check the fields they set.
+   */
+  protected validate(table: string, rows: any, partial: boolean = false): void {
+    const schema = this.validations[table];
+    if (!schema) return;
+    const errors: FieldError[] = [];
+    const list: any[] = Array.isArray(rows) ? rows : [rows];
+    list.forEach((row, index) => {
+      for (const [field, rules] of Object.entries(schema)) {
+        if (partial && !(field in (row || {}))) continue;
+        for (const message of validateSchema(row || {}, { [field]: rules }).errors) {
+          errors.push(Array.isArray(rows) ? { field, message, index } : { field, message });
+        }
+      }
+    });
+    if (errors.length) throw new ValidationError(table, errors);
+  }
+
+  protected relations: Record<string, Record<string, Required<RelationDefinition>>> = {};
+
+  /**
+   * Declares how rows of `table` link to another table, so `select(table, where, { include: [name] })`
+   * can load the related rows onto them.
+   */
+  public defineRelation(table: string, name: string, relation: RelationDefinition): void {
+    this.relations[table] = { ...(this.relations[table] || {}), [name]: normalizeRelation(table, name, relation) };
+  }
+
+  /**
+   * Runs a select with `include`. The rows are read without it, then `loadRelation` attaches every
+   * relation. Adapters call it from `select`.
+   */
+  protected async eagerLoad<T>(table: string, where: WhereClause | null, options: SelectOptions): Promise<T[]> {
+    const { include = [], fields, ...rest } = options;
+    const nodes = includeTree(this.relations, table, include);
+    // Projected selects still need the columns the relations are matched on
+    const needed = new Set(['_id', ...nodes.map(n => relationColumns(n.relation).local)]);
+    const extra = fields ? Array.from(needed).filter(c => !fields.includes(c)) : [];
+    const rows: any[] = await this.select(table, where, fields ? { ...rest, fields: [...fields, ...extra] } : rest);
+    for (const node of nodes) await this.loadRelation(table, rows, node);
+    for (const row of rows) for (const column of extra) delete row[column];
+    return rows as T[];
+  }
+
+  /**
+   * Sets `row[node.name]` on rows of `table`. By default the related rows are read with a single `$in`
+   * select, which loads the nested relations the same way; SQL adapters join them and MongoDB uses `$lookup`.
+   */
+  protected async loadRelation(table: string, rows: any[], node: IncludeNode): Promise<void> {
+    const { relation } = node;
+    const keys = relationKeys(rows, relation);
+    const nested = node.include.length ? { include: node.include } : {};
+    const related = keys.length ? await this.select(relation.table, { [relationColumns(relation).remote]: { $in: keys } }, nested) : [];
+    attachRelated(rows, node.name, relation, related);
+  }
+
+  protected tables: Record<string, TableOptions> = {};
+
+  /** Cache controls, present when the database was created with a `cache` config. */
+  public readonly cache?: { invalidate(target: CacheInvalidation): Promise<void> };
+
+  /**
+   * Turns on per-table behaviour: `timestamps` maintains `createdAt` / `updatedAt`, `softDelete` makes
+   * `delete` set `deletedAt` and hides those rows from reads unless `select` gets `{ withDeleted: true }`,
+   * `versioned` keeps a `_version` counter for optimistic concurrency (see `update`).
+   */
+  public defineTable(table: string, options: TableOptions): void {
+    this.tables[table] = { ...(this.tables[table] || {}), ...options };
+  }
+
+  /**
+   * Brings back soft-deleted rows matching the conditions. Returns the number of restored rows.
+   */
+  async restore(table: string, where: WhereClause): Promise<number> {
+    if (!this.tables[table]?.softDelete) throw new Error(`'${table}' tablosu için softDelete etkin değil.`);
+    return this.update(table, { deletedAt: null }, { ...where, deletedAt: { $exists: true } });
+  }
+
+  /**
+   * Permanently deletes matching rows, soft-deleted or not. On other tables it is a plain `delete`.
+   */
+  async forceDelete(table: string, where: WhereClause): Promise<number> {
+    return this.delete(table, withDeleted(where));
+  }
+
+  /**
+   * Indexes created through `createIndex`, per table.
+   */
+  protected indexes: Record<string, IndexDefinition[]> = {};
+
+  /**
+   * Remembers an index once the adapter has built it, replacing an earlier one with the same name.
+   */
+  protected registerIndex(table: string, index: IndexDefinition): void {
+    const list = (this.indexes[table] || []).filter(i => i.name !== index.name);
+    this.indexes[table] = [...list, index];
+  }
+
+  /**
+   * After-hooks raised inside a transaction scope; they are replayed once the transaction commits.
+   */
+  protected pendingHooks: Array<[HookType, string, any]> | null = null;
+  private _exclusive: Promise<void> | null = null;
+  private _running: number = 0;
+  private _drained: (() => void) | null = null;
+
+  /**
+   * Runs the hooks registered for `hook` in order and returns the payload, as replaced by before-hooks.
+   */
+  protected async runHooks(hook: HookType, table: string, data: any): Promise<any> {
+    if (this.pendingHooks && hook.startsWith('after')) {
+      this.pendingHooks.push([hook, table, data]);
+      return data;
+    }
     for (const fn of this.hooks[hook]) {
-      await fn(table, data);
+      const result = await fn(table, data);
+      if (result !== undefined && hook.startsWith('before')) data = result;
+    }
+    return data;
+  }
+
+  protected get inTransaction(): boolean {
+    return this.pendingHooks !== null;
+  }
+
+  /**
+   * Returns a view of this adapter that carries its own transaction state.
+   * Every other field is read from and written to the adapter itself.
+   */
+  protected createScope(state: Record<string, any>): this {
+    const scope: Record<string | symbol, any> = { pendingHooks: [], pendingChanges: [], ...state };
+    return new Proxy(this, {
+      get: (target, prop, receiver) => prop in scope ? scope[prop] : Reflect.get(target, prop, receiver),
+      set: (target, prop, value) => {
+        if (prop in scope) scope[prop] = value;
+        else (target as any)[prop] = value;
+        return true;
+      }
+    });
+  }
+
+  /**
+   * Drives a transaction with adapter specific handlers. Nested calls reuse the active scope.
+   */
+  protected async runTransaction<T>(fn: (tx: IDatabase) => Promise<T>, handlers: TransactionHandlers): Promise<T> {
+    if (this.inTransaction) return fn(this);
+    let tx: this;
+    let result: T;
+    try {
+      tx = this.createScope(await handlers.begin());
+      try {
+        result = await fn(tx);
+        await handlers.commit();
+      } catch (error) {
+        // The original error is more useful to the caller than a failed rollback
+        await handlers.rollback().catch(() => {});
+        throw error;
+      }
+    } finally {
+      await handlers.release?.();
     }
+    await this.publishChanges(tx.pendingChanges!);
+    for (const [hook, table, data] of tx.pendingHooks!) await this.runHooks(hook, table, data);
+    return result;
+  }
+
+  /**
+   * Runs an operation on adapters whose transactions share a single connection or in-memory state.
+   * It waits while a transaction holds the adapter; calls made through the transaction pass straight through.
+   */
+  protected async guard<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.inTransaction) return fn();
+    while (this._exclusive) await this._exclusive;
+    this._running++;
+    try {
+      return await fn();
+    } finally {
+      if (--this._running === 0 && this._drained) this._drained();
+    }
+  }
+
+  /**
+   * Takes the adapter exclusively once running `guard` operations finish. Returns the release function.
+   */
+  protected async lockExclusive(): Promise<() => void> {
+    while (this._exclusive) await this._exclusive;
+    let release!: () => void;
+    this._exclusive = new Promise(resolve => release = resolve);
+    if (this._running > 0) await new Promise<void>(resolve => this._drained = resolve);
+    this._drained = null;
+    return () => {
+      this._exclusive = null;
+      release();
+    };
   }
 
   /**
@@ -49,13 +397,69 @@ export abstract class IDatabase {
 
   /**
    * Selects multiple records based on the specified conditions.
+   * Conditions may be plain values, operator objects (`{ age: { $gt: 18 } }`)
+   * or nested `$and` / `$or` / `$not` groups.
+   * `options` controls ordering, pagination (`limit` / `offset`) and field projection.
    */
-  abstract select<T = any>(table: string, where?: Record<string, any> | null): Promise<T[]>;
+  abstract select<T = any>(table: string, where?: WhereClause | null, options?: SelectOptions): Promise<T[]>;
 
   /**
    * Selects a single record based on the specified conditions.
    */
-  abstract selectOne<T = any>(table: string, where?: Record<string, any> | null): Promise<T | null>;
+  abstract selectOne<T = any>(table: string, where?: WhereClause | null, options?: ReadOptions): Promise<T | null>;
+
+  /**
+   * Iterates matching records without loading the whole result into memory.
+   * Rows are fetched from the backend `batchSize` at a time.
+   */
+  abstract stream<T = any>(table: string, where?: WhereClause | null, options?: StreamOptions): AsyncIterable<T>;
+
+  /**
+   * Cursor-based (keyset) pagination on top of `select`. Pass the returned `nextCursor`
+   * as `after` with the same `where` / `orderBy` to fetch the next page.
+   */
+  async paginate<T = any>(table: string, options: PaginateOptions = {}): Promise<Page<T>> {
+    const { where, orderBy, limit } = keysetQuery(options);
+    const rows = await this.select<T>(table, where, { orderBy, limit: limit + 1 });
+    return toPage(rows, orderBy, limit);
+  }
+
+  /**
+   * Starts a fluent query on a table, e.g. `db.table('users').where('age', '>', 18).get()`.
+   */
+  table<T extends Record<string, any> = any>(name: string): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, name);
+  }
+
+  /**
+   * Returns a typed model for a table. Pass a schema to register it and infer the row type from it.
+   */
+  model<T extends Record<string, any>>(table: string): Model<T>;
+  model<S extends TableSchema>(table: string, schema: S): Model<InferSchema<S>>;
+  model(table: string, schema?: TableSchema): Model<any> {
+    if (schema) this.defineSchema(table, schema);
+    return new Model(this, table);
+  }
+
+  /**
+   * Counts records matching the specified conditions.
+   */
+  abstract count(table: string, where?: WhereClause | null): Promise<number>;
+
+  /**
+   * Returns true if at least one record matches the specified conditions.
+   */
+  abstract exists(table: string, where?: WhereClause | null): Promise<boolean>;
+
+  /**
+   * Returns the distinct non-null values of a field among matching records.
+   */
+  abstract distinct<T = any>(table: string, field: string, where?: WhereClause | null): Promise<T[]>;
+
+  /**
+   * Groups matching records and computes $sum/$avg/$min/$max/$count metrics per group.
+   */
+  abstract aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]>;
 
   /**
    * Inserts a new record.
@@ -63,19 +467,20 @@ export abstract class IDatabase {
   abstract insert(table: string, data: Record<string, any>): Promise<number | string | any>;
 
   /**
-   * Updates records matching the specified conditions.
+   * Updates records matching the specified conditions. On `versioned` tables, `expectedVersion`
+   * makes the write fail with a `ConcurrencyError` when the row has changed since it was read.
    */
-  abstract update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number>;
+  abstract update(table: string, data: Record<string, any>, where: WhereClause, options?: UpdateOptions): Promise<number>;
 
   /**
    * Updates a record or inserts it as a new record if it doesn't exist (Upsert).
    */
-  abstract set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any>;
+  abstract set(table: string, data: Record<string, any>, where: WhereClause, options?: UpdateOptions): Promise<any>;
 
   /**
    * Deletes records matching the specified conditions.
    */
-  abstract delete(table: string, where: Record<string, any>): Promise<number>;
+  abstract delete(table: string, where: WhereClause): Promise<number>;
 
   /**
    * Inserts multiple records in bulk.
@@ -85,12 +490,63 @@ export abstract class IDatabase {
   /**
    * Increments numeric fields.
    */
-  abstract increment(table: string, increments: Record<string, number>, where: Record<string, any>): Promise<number>;
+  abstract increment(table: string, increments: Record<string, number>, where: WhereClause): Promise<number>;
 
   /**
    * Decrements numeric fields.
    */
-  abstract decrement(table: string, decrements: Record<string, number>, where: Record<string, any>): Promise<number>;
+  abstract decrement(table: string, decrements: Record<string, number>, where: WhereClause): Promise<number>;
+
+  /**
+   * Appends a value to each array field; missing fields start as an empty array.
+   * These field operations run as an `update` that each adapter applies atomically.
+   */
+  async push(table: string, ops: Record<string, any>, where: WhereClause): Promise<number> {
+    return this.update(table, { $push: ops }, where);
+  }
+
+  /**
+   * Removes every element equal to the value from each array field.
+   */
+  async pull(table: string, ops: Record<string, any>, where: WhereClause): Promise<number> {
+    return this.update(table, { $pull: ops }, where);
+  }
+
+  /**
+   * Appends a value to each array field unless an equal element is already there.
+   */
+  async addToSet(table: string, ops: Record<string, any>, where: WhereClause): Promise<number> {
+    return this.update(table, { $addToSet: ops }, where);
+  }
+
+  /**
+   * Shallow-merges an object into each object field, keeping the keys it does not mention.
+   */
+  async merge(table: string, ops: Record<string, Record<string, any>>, where: WhereClause): Promise<number> {
+    return this.update(table, { $merge: ops }, where);
+  }
+
+  /**
+   * Removes fields (dot-paths remove nested keys). SQL adapters set whole columns to NULL.
+   */
+  async unset(table: string, fields: string | string[], where: WhereClause): Promise<number> {
+    const list = Array.isArray(fields) ? fields : [fields];
+    return this.update(table, { $unset: Object.fromEntries(list.map(field => [field, true])) }, where);
+  }
+
+  /**
+   * Creates a secondary index over one or more fields; calling it again for the same index does nothing.
+   * With `unique: true`, writes that repeat an existing key reject with a `UniqueConstraintError`,
+   * and so does creating it over rows that already repeat one.
+   */
+  abstract createIndex(table: string, fields: string | string[], options?: IndexOptions): Promise<void>;
+
+  /**
+   * Runs `fn` inside a transaction. Writes made through `tx` commit together when `fn` resolves
+   * and roll back when it throws; after-hooks fire only once the commit succeeds.
+   * Use `tx`, not the outer instance, for every call inside the callback.
+   */
+  abstract transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T>;
 
   /**
    * Safely closes the database connection.
@@ -0,0 +1,63 @@
+// database/cacheBus.ts
+import { EventEmitter } from 'events';
+import { createClient, RedisClientType } from 'redis';
+import { CacheBus, CacheBusMessage, RedisCacheBusConfig } from './types';
+
+/**
+ * Delivers invalidations between caches in one process. Share an instance between the
+ * databases that should evict together, e.g. in tests.
+ */
+export class LocalCacheBus implements CacheBus {
+  private emitter = new EventEmitter();
+
+  publish(message: CacheBusMessage): void {
+    this.emitter.emit('invalidate', message);
+  }
+
+  subscribe(handler: (message: CacheBusMessage) => void): () => void {
+    this.emitter.on('invalidate', handler);
+    return () => { this.emitter.off('invalidate', handler); };
+  }
+}
+
+/**
+ * Delivers invalidations between processes over a Redis pub/sub channel. Subscribing
+ * takes a connection of its own, so one client publishes and a duplicate listens.
+ */
+export class RedisCacheBus implements CacheBus {
+  private publisher: RedisClientType;
+  private subscriber: RedisClientType;
+  private channel: string;
+  private ready: Promise<unknown>;
+
+  constructor(config: Omit<RedisCacheBusConfig, 'type'> = {}) {
+    this.publisher = createClient({
+      socket: { host: config.host || '127.0.0.1', port: config.port || 6379 },
+      password: config.password,
+      database: config.db || 0,
+    }) as RedisClientType;
+    this.subscriber = this.publisher.duplicate();
+    this.channel = config.channel || 'zerohelper_cache';
+    // Connection errors surface on publish/subscribe; without listeners they would crash the process
+    this.publisher.on('error', () => {});
+    this.subscriber.on('error', () => {});
+    this.ready = Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+  }
+
+  async publish(message: CacheBusMessage): Promise<void> {
+    await this.ready;
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(handler: (message: CacheBusMessage) => void): Promise<() => Promise<void>> {
+    await this.ready;
+    const listener = (raw: string) => handler(JSON.parse(raw));
+    await this.subscriber.subscribe(this.channel, listener);
+    return () => this.subscriber.unsubscribe(this.channel, listener);
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => {});
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]).catch(() => {});
+  }
+}
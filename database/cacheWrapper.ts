@@ -1,7 +1,61 @@
-import { IDatabase, HookType, HookFunction } from './IDatabase';
+import { IDatabase } from './IDatabase';
 import { LRUCache } from 'lru-cache';
 import { createClient, RedisClientType } from 'redis';
 import { telemetry } from './telemetry';
+import { ValidationSchema } from '../functions/index';
+import { ChangeStream } from './changes';
+import { RedisCacheBus } from './cacheBus';
+import { randomUUID } from 'crypto';
+import { SelectOptions, AggregateOptions, StreamOptions, TableSchema, IndexOptions, TableOptions, WhereClause, ChangeEvent, UpdateOptions, ReadOptions, CachePolicy, CacheInvalidation, CacheBus, RedisCacheBusConfig } from './types';
+import { isOperatorObject, pathColumns, splitPath, whereColumns } from './query';
+
+const WRITE_METHODS = ['insert', 'update', 'set', 'delete', 'bulkInsert', 'increment', 'decrement', 'restore', 'forceDelete', 'push', 'pull', 'addToSet', 'merge', 'unset'];
+
+interface CacheEntry {
+  value: any;
+  tags: string[];
+  /** When the entry goes stale; it is kept for the stale windows after that. */
+  expires: number;
+}
+
+/** How a cached read fetches, tags and keeps its result. */
+interface CachedRead<T> {
+  load: () => Promise<T>;
+  tagsOf: (data: T) => string[];
+  /** How long to keep a result, or 0 not to cache it. */
+  ttlOf: (data: T) => number;
+  /** Another entry that can answer the read, e.g. a `select` for a `selectOne`. */
+  shared?: { key: string; pick: (value: any) => T };
+}
+
+/**
+ * Ids a where clause pins with `_id` (a value, `$eq` or `$in`), or null when it can match any row.
+ */
+function pinnedIds(where: WhereClause | null | undefined): string[] | null {
+  const cond = where?._id;
+  if (cond === undefined || cond === null) return null;
+  if (!isOperatorObject(cond)) return [String(cond)];
+  if (cond.$eq !== undefined) return [String(cond.$eq)];
+  return Array.isArray(cond.$in) ? cond.$in.map(String) : null;
+}
+
+/**
+ * Tags of a cached read. Every entry has `all`; `query` marks results an insert could grow, `id:<id>` the
+ * rows returned or pinned by the where, `field:<name>` the fields it filters or sorts on, and `rows`
+ * results whose rows have no `_id` to track.
+ */
+function entryTags(where: WhereClause | null, options: SelectOptions, rows: any[]): string[] {
+  const tags = new Set(['all']);
+  const pinned = pinnedIds(where);
+  if (pinned) for (const id of pinned) tags.add(`id:${id}`);
+  for (const row of rows) tags.add(row?._id === undefined || row?._id === null ? 'rows' : `id:${String(row._id)}`);
+  // Pinned reads missing one of their rows can still be completed by an insert
+  if (!pinned || pinned.some(id => !rows.some(row => String(row?._id) === id))) tags.add('query');
+  for (const field of [...Object.keys(whereColumns(where)), ...Object.keys(options.orderBy || {})]) {
+    tags.add(`field:${splitPath(field).column}`);
+  }
+  return [...tags];
+}
 
 export class CacheWrapper extends IDatabase {
   public db: IDatabase;
@@ -9,34 +63,87 @@ export class CacheWrapper extends IDatabase {
   private tableCaches: Record<string, LRUCache<string, any>> = {};
   private redisClient: RedisClientType | null = null;
   private redisAvailable: boolean = false;
-  private ttl: number = 300;
+  /** Default freshness in ms, for memory and Redis alike. */
+  private ttl: number = 300000;
+  private max: number = 500;
+  private policies: Record<string, CachePolicy> = {};
+  private negativeTtl: number = 0;
+  /** Longest ttl written so far; tag sets outlive every entry they list. */
+  private longestTtl: number = 0;
   private keyPrefix: string = 'db_cache:';
-  private cache: LRUCache<string, any> | null = null;
+  /** Keys of each table's memory cache by tag. */
+  private tagIndex: Record<string, Map<string, Set<string>>> = {};
+  private bus: CacheBus | null = null;
+  private ownsBus: boolean = false;
+  private busId: string = randomUUID();
+  private unsubscribe: Promise<(() => Promise<void> | void) | null> = Promise.resolve(null);
+  private staleWhileRevalidate: number = 0;
+  private staleIfError: number = 0;
+  /** Reads of each table in flight by cache key, shared by identical misses. */
+  private inflight: Record<string, Map<string, Promise<any>>> = {};
+  /** Bumped on every eviction, so reads that started before it don't cache what they fetched. */
+  private generations: Record<string, number> = {};
+
+  /**
+   * Manual cache control: `invalidate({ table })` drops every cached read of the table, and
+   * `invalidate({ table, tags: ['id:42', 'field:email'] })` only the entries carrying one of the tags.
+   */
+  public readonly cache = {
+    invalidate: ({ table, tags }: CacheInvalidation): Promise<void> => this._invalidate(table, tags),
+  };
 
   constructor(databaseInstance: IDatabase, options: any = {}) {
     super();
     this.db = databaseInstance;
+    // Hooks fire once, at the wrapper, so cached reads run them too; the adapter calls made underneath skip them
+    this.hooks = (databaseInstance as any).hooks;
+    // Includes are resolved by the wrapper, so each related table is read through (and evicted from) its own cache
+    this.relations = (databaseInstance as any).relations;
+    // Table options are applied at the wrapper too, so it checks expectedVersion against the same definitions
+    this.tables = (databaseInstance as any).tables;
     this.cacheType = options.type || 'memory';
-    if (this.cacheType === 'redis') {
-      this._initRedisCache(options);
-    } else {
-      this._initMemoryCache(options);
-    }
+    this.ttl = options.ttl || 300000;
+    this.max = options.max || 500;
+    this.policies = options.tables || {};
+    this.negativeTtl = options.negativeTtl || 0;
+    this.staleWhileRevalidate = options.staleWhileRevalidate || 0;
+    this.staleIfError = options.staleIfError || 0;
+    if (this.cacheType === 'redis') this._initRedisCache(options);
+    if (options.bus) this._initBus(options.bus);
   }
 
-  /**
-   * Redirect hooks registration to the underlying database instance.
-   */
-  public override on(hook: HookType, fn: HookFunction): void {
-    this.db.on(hook, fn);
+  public override defineSchema(table: string, schema: TableSchema): void {
+    this.db.defineSchema(table, schema);
   }
 
-  private _initMemoryCache(options: any): void {
-    this.cache = new LRUCache({
-      max: options.max || 500,
-      ttl: options.ttl || 1000 * 60 * 5,
-    });
-    this.redisAvailable = false;
+  public override defineValidation(table: string, schema: ValidationSchema): void {
+    this.db.defineValidation(table, schema);
+  }
+
+  public override defineTable(table: string, options: TableOptions): void {
+    this.db.defineTable(table, options);
+  }
+
+  public override watch<T = any>(table?: string, filter?: WhereClause | null): ChangeStream<T> {
+    return this.db.watch<T>(table, filter);
+  }
+
+  // Writes are captured here, where their hooks fire, and published on the adapter's feed
+  protected override capturesChanges(table: string): boolean {
+    return (this.db as any).capturesChanges(table);
+  }
+
+  protected override publishChanges(events: ChangeEvent[]): Promise<void> {
+    return (this.db as any).publishChanges(events);
+  }
+
+  private _initBus(bus: CacheBus | RedisCacheBusConfig): void {
+    this.ownsBus = !('publish' in bus);
+    this.bus = 'publish' in bus ? bus : new RedisCacheBus(bus);
+    // Other caches' invalidations only evict from memory; shared Redis entries were dropped by the writer
+    this.unsubscribe = Promise.resolve(this.bus.subscribe(message => {
+      if (message.source !== this.busId) this._evictMemory(message.table, message.tags);
+    })).catch(() => null);
   }
 
   private async _initRedisCache(options: any): Promise<void> {
@@ -51,7 +158,6 @@ export class CacheWrapper extends IDatabase {
     };
 
     this.redisClient = createClient(redisConfig) as RedisClientType;
-    this.ttl = (options.ttl || 300000) / 1000;
     this.keyPrefix = options.keyPrefix || 'db_cache:';
 
     this.redisClient.on('error', () => {
@@ -66,154 +172,365 @@ export class CacheWrapper extends IDatabase {
       await this.redisClient.connect();
       this.redisAvailable = true;
     } catch (error) {
-      this._initMemoryCache(options);
+      // Reads fall back to the memory cache, under the same ttl and max
+      this.redisAvailable = false;
     }
   }
 
   private _getCache(table: string): any {
     if (this.cacheType === 'redis' && this.redisAvailable && this.redisClient) return this.redisClient;
+    return this._memoryCache(table);
+  }
+
+  private _memoryCache(table: string): LRUCache<string, CacheEntry> {
     if (!this.tableCaches[table]) {
-      this.tableCaches[table] = new LRUCache({
-        max: this.cache?.max || 500,
-        ttl: this.cache?.ttl || 300000,
+      this.tableCaches[table] = new LRUCache<string, CacheEntry>({
+        max: this.policies[table]?.max || this.max,
+        ttl: this._ttl(table) + this._staleWindow(),
+        // Evicted, expired and invalidated entries leave the tag index too
+        dispose: (entry, key) => this._untag(table, key, entry.tags),
       });
+      this.tagIndex[table] = new Map();
     }
     return this.tableCaches[table];
   }
 
-  private _generateKey(table: string, where: Record<string, any> | null): string {
+  private _untag(table: string, key: string, tags: string[]): void {
+    const index = this.tagIndex[table];
+    for (const tag of tags) {
+      const keys = index?.get(tag);
+      keys?.delete(key);
+      if (keys && !keys.size) index.delete(tag);
+    }
+  }
+
+  /** Freshness of a read: its own `cache.ttl`, else the table's policy, else the default. */
+  private _ttl(table: string, policy?: ReadOptions['cache']): number {
+    return (policy && policy.ttl) || this.policies[table]?.ttl || this.ttl;
+  }
+
+  private _negativeTtl(table: string): number {
+    return this.policies[table]?.negativeTtl ?? this.negativeTtl;
+  }
+
+  private _caches(table: string, policy?: ReadOptions['cache']): boolean {
+    return policy !== false && this.policies[table]?.enabled !== false;
+  }
+
+  /** How long entries are kept after going stale, to serve them within either window. */
+  private _staleWindow(): number {
+    return Math.max(this.staleWhileRevalidate, this.staleIfError);
+  }
+
+  private _tagKey(table: string, tag: string): string {
+    return `${this.keyPrefix}tags:${table}:${tag}`;
+  }
+
+  private _generateKey(table: string, where: Record<string, any> | null, options: SelectOptions = {}): string {
     const sortedWhere = where ? Object.keys(where).sort().reduce((acc: any, key) => {
       acc[key] = where[key];
       return acc;
     }, {}) : {};
-    const key = `${table}:${JSON.stringify(sortedWhere)}`;
+    const hasOptions = Object.keys(options).length > 0;
+    const key = `${table}:${JSON.stringify(sortedWhere)}${hasOptions ? ':' + JSON.stringify(options) : ''}`;
     return this.cacheType === 'redis' ? `${this.keyPrefix}${key}` : key;
   }
 
-  private async _getCacheValue(cache: any, key: string, table: string): Promise<any> {
+  private async _getCacheValue(cache: any, key: string): Promise<{ value: any; expires: number } | null> {
     if (this.cacheType === 'redis' && this.redisAvailable && this.redisClient) {
       try {
         const value = await cache.get(key);
-        if (value) {
-          telemetry.recordCacheHit();
-          return JSON.parse(value);
-        }
+        if (value) return JSON.parse(value);
       } catch {
         this.redisAvailable = false;
       }
     } else if (cache instanceof LRUCache) {
-      const value = cache.get(key);
-      if (value) {
-        telemetry.recordCacheHit();
-        return value;
-      }
+      return cache.get(key) || null;
     }
-    telemetry.recordCacheMiss();
     return null;
   }
 
-  private async _setCacheValue(cache: any, key: string, value: any, table: string): Promise<void> {
+  /**
+   * Stores a read with its tags. Redis keeps one set of keys per tag, so invalidation never scans keys.
+   */
+  private async _setCacheValue(cache: any, key: string, value: any, table: string, tags: string[], ttl: number): Promise<void> {
+    const expires = Date.now() + ttl;
     if (this.cacheType === 'redis' && this.redisAvailable && this.redisClient) {
       try {
-        await cache.setEx(key, Math.floor(this.ttl), JSON.stringify(value));
+        this.longestTtl = Math.max(this.longestTtl, ttl);
+        const seconds = (ms: number) => Math.ceil((ms + this._staleWindow()) / 1000);
+        const multi = this.redisClient.multi().setEx(key, seconds(ttl), JSON.stringify({ value, expires }));
+        for (const tag of tags) multi.sAdd(this._tagKey(table, tag), key).expire(this._tagKey(table, tag), seconds(this.longestTtl));
+        await multi.exec();
+        return;
       } catch {
         this.redisAvailable = false;
-        this._getCache(table).set(key, value);
       }
-    } else {
-      cache.set(key, value);
+    }
+    this._memoryCache(table).set(key, { value, tags, expires }, { ttl: ttl + this._staleWindow() });
+    const index = this.tagIndex[table];
+    for (const tag of tags) {
+      if (!index.has(tag)) index.set(tag, new Set());
+      index.get(tag)!.add(key);
     }
   }
 
-  private async _clearCache(table: string): Promise<void> {
+  /**
+   * Drops the cached reads of a table that carry any of the tags, or all of them without tags,
+   * and tells the other caches on the bus to do the same.
+   */
+  private async _invalidate(table: string, tags?: string[]): Promise<void> {
     if (this.cacheType === 'redis' && this.redisAvailable && this.redisClient) {
       try {
-        const keys = await this.redisClient.keys(`${this.keyPrefix}${table}:*`);
-        if (keys.length) await this.redisClient.del(keys);
+        const tagKeys = (tags || ['all']).map(tag => this._tagKey(table, tag));
+        const keys = await this.redisClient.sUnion(tagKeys);
+        await this.redisClient.del([...keys, ...tagKeys]);
       } catch {
         this.redisAvailable = false;
       }
     }
-    if (this.tableCaches[table]) this.tableCaches[table].clear();
+    this._evictMemory(table, tags);
+    if (this.bus) await Promise.resolve(this.bus.publish({ source: this.busId, table, ...(tags ? { tags } : {}) })).catch(() => {});
   }
 
-  async select<T = any>(table: string, where: Record<string, any> | null = null): Promise<T[]> {
-    const cache = this._getCache(table);
-    const key = this._generateKey(table, where);
-    let data = await this._getCacheValue(cache, key, table);
-    if (data !== null && data !== undefined) return data;
+  private _evictMemory(table: string, tags?: string[]): void {
+    this.generations[table] = (this.generations[table] || 0) + 1;
+    this.inflight[table]?.clear();
+    const cache = this.tableCaches[table];
+    if (!cache) return;
+    if (!tags) return cache.clear();
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex[table].get(tag) || [])) cache.delete(key);
+    }
+  }
 
-    const start = Date.now();
-    data = await this.db.select(table, where);
-    (this.db as any).recordMetric?.('select', table, Date.now() - start);
+  /**
+   * Ids of the rows a write is about to touch: the ones its where pins, or else read before the write.
+   * Null for writes to the whole table, which evict all of it.
+   */
+  private async _affectedIds(table: string, where: WhereClause | null): Promise<string[] | null> {
+    if (!where || !Object.keys(where).length) return null;
+    const pinned = pinnedIds(where);
+    if (pinned) return pinned;
+    const rows = await this.db.select(table, where, { fields: ['_id'] });
+    return rows.map((row: any) => String(row._id));
+  }
 
-    if (data !== null && data !== undefined) await this._setCacheValue(cache, key, data, table);
-    return data;
+  /**
+   * Tags to evict after changing `fields` of the given rows. Fields the table maintains itself
+   * (`updatedAt`, `_version`) change on every write.
+   */
+  private _updateTags(table: string, ids: string[] | null, fields: string[]): string[] | undefined {
+    if (!ids) return undefined;
+    const options: TableOptions = this.tables[table] || {};
+    if (options.timestamps) fields.push('updatedAt');
+    if (options.versioned) fields.push('_version');
+    return ['rows', ...ids.map(id => `id:${id}`), ...fields.map(field => `field:${field}`)];
   }
 
-  async selectOne<T = any>(table: string, where: Record<string, any> | null = null): Promise<T | null> {
-    const cache = this._getCache(table);
-    const key = this._generateKey(table + '_one', where);
-    let data = await this._getCacheValue(cache, key, table);
-    if (data !== null && data !== undefined) return data;
+  /**
+   * Answers a read from the cache. Stale entries are served while a background refresh runs
+   * (`staleWhileRevalidate`) or when the refresh fails (`staleIfError`); misses for a key
+   * already being read wait for that read instead of querying again.
+   */
+  private async _read<T>(table: string, key: string, read: CachedRead<T>): Promise<T> {
+    const entry = await this._getCacheValue(this._getCache(table), key);
+    const now = Date.now();
+    if (entry && now < entry.expires) {
+      telemetry.recordCacheHit();
+      return entry.value;
+    }
+    if (read.shared) {
+      const shared = await this._getCacheValue(this._getCache(table), read.shared.key);
+      if (shared && now < shared.expires) {
+        telemetry.recordCacheHit();
+        return read.shared.pick(shared.value);
+      }
+    }
+    if (entry && now < entry.expires + this.staleWhileRevalidate) {
+      telemetry.recordCacheStale();
+      this._load(table, key, read).catch(() => {});
+      return entry.value;
+    }
+
+    if (this.inflight[table]?.has(key)) telemetry.recordCacheCoalesced();
+    else telemetry.recordCacheMiss();
+    try {
+      return await this._load(table, key, read);
+    } catch (error) {
+      if (!entry || Date.now() >= entry.expires + this.staleIfError) throw error;
+      telemetry.recordCacheStale();
+      return entry.value;
+    }
+  }
 
-    const start = Date.now();
-    data = await this.db.selectOne(table, where);
-    (this.db as any).recordMetric?.('selectOne', table, Date.now() - start);
+  // Joins the read in flight for the key, or starts one and caches its result
+  private _load<T>(table: string, key: string, { load, tagsOf, ttlOf }: CachedRead<T>): Promise<T> {
+    const inflight = this.inflight[table] ||= new Map();
+    if (inflight.has(key)) return inflight.get(key)!;
+    const generation = this.generations[table] || 0;
+    const promise: Promise<T> = load().then(async data => {
+      const ttl = data === undefined ? 0 : ttlOf(data);
+      if (ttl && (this.generations[table] || 0) === generation) {
+        await this._setCacheValue(this._getCache(table), key, data, table, tagsOf(data), ttl);
+      }
+      return data;
+    }).finally(() => {
+      if (inflight.get(key) === promise) inflight.delete(key);
+    });
+    inflight.set(key, promise);
+    return promise;
+  }
 
-    if (data !== null && data !== undefined) await this._setCacheValue(cache, key, data, table);
-    return data;
+  async select<T = any>(table: string, where: Record<string, any> | null = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
+    const { cache: policy, ...rest } = options;
+    const load = async () => {
+      const start = Date.now();
+      const data = await this.db.select<T>(table, where, rest);
+      (this.db as any).recordMetric?.('select', table, Date.now() - start);
+      return data;
+    };
+    if (!this._caches(table, policy)) return load();
+    const ttl = this._ttl(table, policy);
+    return this._read(table, this._generateKey(table, where, rest), { load, tagsOf: data => entryTags(where, rest, data), ttlOf: () => ttl });
+  }
+
+  async selectOne<T = any>(table: string, where: Record<string, any> | null = null, options: ReadOptions = {}): Promise<T | null> {
+    const load = async () => {
+      const start = Date.now();
+      const data = await this.db.selectOne<T>(table, where);
+      (this.db as any).recordMetric?.('selectOne', table, Date.now() - start);
+      return data;
+    };
+    if (!this._caches(table, options.cache)) return load();
+    const ttl = this._ttl(table, options.cache);
+    return this._read(table, this._generateKey(table + '_one', where), {
+      load,
+      tagsOf: data => entryTags(where, {}, data === null ? [] : [data]),
+      // Misses are only kept with a negativeTtl, which is meant to be short
+      ttlOf: data => data === null ? this._negativeTtl(table) : ttl,
+      // A cached select on the same where holds the row too
+      shared: { key: this._generateKey(table, where), pick: (rows: T[]) => rows[0] ?? null },
+    });
+  }
+
+  stream<T = any>(table: string, where: Record<string, any> | null = null, options: StreamOptions = {}): AsyncIterable<T> {
+    return this.db.stream<T>(table, where, options);
+  }
+
+  async count(table: string, where: Record<string, any> | null = null): Promise<number> {
+    return this.db.count(table, where);
+  }
+
+  async exists(table: string, where: Record<string, any> | null = null): Promise<boolean> {
+    return this.db.exists(table, where);
+  }
+
+  async distinct<T = any>(table: string, field: string, where: Record<string, any> | null = null): Promise<T[]> {
+    return this.db.distinct<T>(table, field, where);
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this.db.aggregate(table, options);
   }
 
   async insert(table: string, data: Record<string, any>): Promise<any> {
     const start = Date.now();
     const result = await this.db.insert(table, data);
     (this.db as any).recordMetric?.('insert', table, Date.now() - start);
-    await this._clearCache(table);
+    await this._invalidate(table, ['query']);
     return result;
   }
 
-  async update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
+  // Updates evict the entries holding the rows they touch and those filtering or sorting on the fields they change
+  async update(table: string, data: Record<string, any>, where: Record<string, any>, options?: UpdateOptions): Promise<number> {
+    const ids = await this._affectedIds(table, where);
     const start = Date.now();
-    const result = await this.db.update(table, data, where);
+    const result = await this.db.update(table, data, where, options);
     (this.db as any).recordMetric?.('update', table, Date.now() - start);
-    if (result > 0) await this._clearCache(table);
+    if (result > 0) await this._invalidate(table, this._updateTags(table, ids, Object.keys(pathColumns(data))));
     return result;
   }
 
-  async set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any> {
-    const result = await this.db.set(table, data, where);
-    await this._clearCache(table);
+  async set(table: string, data: Record<string, any>, where: Record<string, any>, options?: UpdateOptions): Promise<any> {
+    const ids = await this._affectedIds(table, where);
+    const result = await this.db.set(table, data, where, options);
+    const tags = this._updateTags(table, ids, Object.keys(pathColumns(data)));
+    await this._invalidate(table, tags && ['query', ...tags]);
     return result;
   }
 
+  // Removed rows only leave the entries that held them, but soft deletes also change `deletedAt`
   async delete(table: string, where: Record<string, any>): Promise<number> {
+    const ids = await this._affectedIds(table, where);
     const start = Date.now();
     const result = await this.db.delete(table, where);
     (this.db as any).recordMetric?.('delete', table, Date.now() - start);
-    if (result > 0) await this._clearCache(table);
+    const soft = this.tables[table]?.softDelete;
+    if (result > 0) await this._invalidate(table, soft ? this._updateTags(table, ids, ['deletedAt']) : ids?.map(id => `id:${id}`).concat('rows'));
     return result;
   }
 
   async bulkInsert(table: string, dataArray: Record<string, any>[]): Promise<number> {
     const result = await this.db.bulkInsert(table, dataArray);
-    await this._clearCache(table);
+    await this._invalidate(table, ['query']);
     return result;
   }
 
   async increment(table: string, increments: Record<string, number>, where: Record<string, any> = {}): Promise<number> {
+    const ids = await this._affectedIds(table, where);
     const result = await this.db.increment(table, increments, where);
-    await this._clearCache(table);
+    if (result > 0) await this._invalidate(table, this._updateTags(table, ids, Object.keys(pathColumns(increments))));
     return result;
   }
 
   async decrement(table: string, decrements: Record<string, number>, where: Record<string, any> = {}): Promise<number> {
+    const ids = await this._affectedIds(table, where);
     const result = await this.db.decrement(table, decrements, where);
-    await this._clearCache(table);
+    if (result > 0) await this._invalidate(table, this._updateTags(table, ids, Object.keys(pathColumns(decrements))));
+    return result;
+  }
+
+  async restore(table: string, where: Record<string, any>): Promise<number> {
+    const result = await this.db.restore(table, where);
+    if (result > 0) await this._invalidate(table);
+    return result;
+  }
+
+  async forceDelete(table: string, where: Record<string, any>): Promise<number> {
+    const result = await this.db.forceDelete(table, where);
+    if (result > 0) await this._invalidate(table);
+    return result;
+  }
+
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    return this.db.createIndex(table, fields, options);
+  }
+
+  /**
+   * Transaction reads bypass the cache; tables written through `tx` are evicted once it commits.
+   */
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    const touched = new Set<string>();
+    const result = await this.db.transaction(tx => fn(new Proxy(tx, {
+      get: (target, prop) => {
+        const val = (target as any)[prop];
+        if (typeof val !== 'function') return val;
+        if (!WRITE_METHODS.includes(prop as string)) return val.bind(target);
+        return (table: string, ...args: any[]) => {
+          touched.add(table);
+          return val.call(target, table, ...args);
+        };
+      }
+    })));
+    for (const table of touched) await this._invalidate(table);
     return result;
   }
 
   async close(): Promise<void> {
+    await (await this.unsubscribe)?.();
+    if (this.ownsBus) await (this.bus as RedisCacheBus).close();
     if (this.redisClient) {
       await this.redisClient.quit();
       this.redisClient = null;
@@ -0,0 +1,142 @@
+// database/changes.ts
+import { EventEmitter } from 'events';
+import { ChangeEvent, WhereClause } from './types';
+import { matchesWhere } from './query';
+import { indexValue } from './indexes';
+import { withDeleted } from './tableOptions';
+
+/**
+ * Change events returned by `db.watch()`. Listen with `on('change', ...)` or iterate with `for await`;
+ * `close()` (or leaving the loop) unsubscribes.
+ */
+export class ChangeStream<T = any> extends EventEmitter implements AsyncIterable<ChangeEvent<T>> {
+  /** Resolves once the stream is subscribed to the adapter's change feed. */
+  public ready: Promise<void> = Promise.resolve();
+  private queue: ChangeEvent<T>[] = [];
+  private waiting: Array<{ resolve: (result: IteratorResult<ChangeEvent<T>>) => void; reject: (error: any) => void }> = [];
+  private error: any = null;
+  private iterating: boolean = false;
+  private closed: boolean = false;
+
+  constructor(public readonly table: string | undefined, private readonly filter: WhereClause | null | undefined, private readonly onClose: () => void) {
+    super();
+  }
+
+  /**
+   * True when the event is for the watched table and the row matches the filter before or after the change.
+   */
+  matches(event: ChangeEvent): boolean {
+    if (this.table && event.table !== this.table) return false;
+    if (!this.filter) return true;
+    return [event.before, event.after].some(row => row && matchesWhere(row, this.filter));
+  }
+
+  /** Called by the database for every matching change. */
+  push(event: ChangeEvent<T>): void {
+    if (this.closed) return;
+    this.emit('change', event);
+    const next = this.waiting.shift();
+    if (next) next.resolve({ value: event, done: false });
+    // Kept for a later `for await` unless the stream is only consumed through listeners
+    else if (this.iterating || !this.listenerCount('change')) this.queue.push(event);
+  }
+
+  /** Called by the database when the underlying feed breaks. */
+  fail(error: any): void {
+    if (this.closed) return;
+    this.error = error;
+    if (this.listenerCount('error')) this.emit('error', error);
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const waiter of this.waiting.splice(0)) waiter.resolve({ value: undefined, done: true });
+    this.onClose();
+    this.emit('close');
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChangeEvent<T>> {
+    this.iterating = true;
+    return {
+      next: () => {
+        if (this.queue.length) return Promise.resolve({ value: this.queue.shift()!, done: false });
+        if (this.error) return Promise.reject(this.error);
+        if (this.closed) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+      },
+      return: async () => {
+        this.close();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
+
+interface Capture {
+  /** Reads the rows the write is about to change. */
+  before(db: any, table: string, args: any[]): Promise<any[]>;
+  /** Builds the change events once the write has run. */
+  events(db: any, table: string, args: any[], before: any[], result: any): Promise<Omit<ChangeEvent, 'table' | 'ts'>[]>;
+}
+
+const none = async () => [];
+
+/**
+ * Pairs the rows read before a write with their state after it, by `_id`. Rows are re-read with
+ * `withDeleted` so a write that soft-deletes them still finds them.
+ */
+async function updated(db: any, table: string, before: any[]) {
+  if (!before.length) return [];
+  const after: any[] = await db.select(table, withDeleted({ _id: { $in: before.map(row => row._id) } }));
+  const byId = new Map(after.map(row => [indexValue(row._id), row]));
+  return before.map(row => ({ op: 'update' as const, before: row, after: byId.get(indexValue(row._id)) ?? null }));
+}
+
+const byWhere = (index: number) => (db: any, table: string, args: any[]) => db.select(table, args[index]);
+
+const captures = new Map<string, Capture>(Object.entries({
+  insert: {
+    before: none,
+    events: async (db, table, [data], _, id) => {
+      const row = await db.selectOne(table, withDeleted({ _id: id }));
+      return [{ op: 'insert', before: null, after: row ?? { _id: id, ...data } }];
+    },
+  },
+  // bulkInsert does not report ids, so its events carry the rows as they were given
+  bulkInsert: {
+    before: none,
+    events: async (db, table, [rows]) => rows.map((row: any) => ({ op: 'insert', before: null, after: row })),
+  },
+  update: { before: byWhere(1), events: (db, table, args, before) => updated(db, table, before) },
+  increment: { before: byWhere(1), events: (db, table, args, before) => updated(db, table, before) },
+  decrement: { before: byWhere(1), events: (db, table, args, before) => updated(db, table, before) },
+  set: {
+    before: byWhere(1),
+    events: async (db, table, [data, where], before) => {
+      if (before.length) return updated(db, table, before);
+      const [row] = await db.select(table, where, { limit: 1 });
+      return [{ op: 'insert', before: null, after: row ?? { ...where, ...data } }];
+    },
+  },
+  delete: {
+    before: byWhere(0),
+    events: async (db, table, args, before) => before.map(row => ({ op: 'delete', before: row, after: null })),
+  },
+} as Record<string, Capture>));
+
+/**
+ * Runs a write and publishes the changes it made when the table is being watched. The rows are read
+ * before and after the write through the same instance, so inside a transaction they come from `tx`.
+ */
+export async function withChanges<T>(db: any, method: string, table: string, args: any[], run: () => Promise<T>): Promise<T> {
+  const capture = captures.get(method);
+  if (!capture || !db.capturesChanges(table)) return run();
+  const before = await capture.before(db, table, args);
+  const result = await run();
+  const ts = Date.now();
+  const events = await capture.events(db, table, args, before, result);
+  await db.publishChanges(events.map(event => ({ ...event, table, ts })));
+  return result;
+}
@@ -0,0 +1,60 @@
+// database/errors.ts
+
+export interface FieldError {
+  field: string;
+  message: string;
+  /** Position of the row in a bulk write. */
+  index?: number;
+}
+
+/**
+ * Thrown when a write does not satisfy the table's validation schema. Nothing is written.
+ */
+export class ValidationError extends Error {
+  public readonly table: string;
+  public readonly errors: FieldError[];
+
+  constructor(table: string, errors: FieldError[]) {
+    super(`'${table}' tablosuna yazılan veri geçersiz: ${errors.map(e => e.index === undefined ? e.message : `[${e.index}] ${e.message}`).join(', ')}`);
+    this.name = 'ValidationError';
+    this.table = table;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown when a write would repeat the key of a unique index (or a schema primary key).
+ */
+export class UniqueConstraintError extends Error {
+  public readonly table: string;
+  public readonly fields: string[];
+  /** The duplicated key, when the backend reports it. */
+  public readonly values?: any[];
+
+  constructor(table: string, fields: string[], values?: any[]) {
+    super(`'${table}' tablosunda (${fields.join(', ')}) benzersiz olmalıdır${values ? `, '${values.join(', ')}' zaten kayıtlı` : ''}.`);
+    this.name = 'UniqueConstraintError';
+    this.table = table;
+    this.fields = fields;
+    this.values = values;
+  }
+}
+
+/**
+ * Thrown when a write with `expectedVersion` finds the row at another version, i.e. someone else
+ * changed it since it was read. Nothing is written.
+ */
+export class ConcurrencyError extends Error {
+  public readonly table: string;
+  public readonly expectedVersion: number;
+  /** The stored version, or null when the row no longer exists. */
+  public readonly actualVersion: number | null;
+
+  constructor(table: string, expectedVersion: number, actualVersion: number | null) {
+    super(`'${table}' tablosundaki kayıt başka bir işlem tarafından değiştirildi (beklenen sürüm ${expectedVersion}, mevcut ${actualVersion ?? 'yok'}).`);
+    this.name = 'ConcurrencyError';
+    this.table = table;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
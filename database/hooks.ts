@@ -0,0 +1,99 @@
+// database/hooks.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IDatabase, HookType } from './IDatabase';
+import { interceptMethods } from './intercept';
+import { withChanges } from './changes';
+
+interface HookSpec {
+  before: HookType;
+  after: HookType;
+  /** Builds the before-hook payload from the call arguments. */
+  payload(args: any[]): any;
+  /** Turns the (possibly replaced) payload back into call arguments. */
+  args(payload: any): any[];
+  /** Builds the after-hook payload from the payload and the call result. */
+  result(payload: any, result: any): any;
+}
+
+const specs = new Map<string, HookSpec>(Object.entries({
+  select: {
+    before: 'beforeSelect', after: 'afterSelect',
+    payload: ([where = null, options = {}]) => ({ where, options }),
+    args: p => [p.where, p.options],
+    result: (p, rows) => ({ ...p, rows }),
+  },
+  selectOne: {
+    before: 'beforeSelect', after: 'afterSelect',
+    payload: ([where = null, options = {}]) => ({ where, options }),
+    args: p => [p.where, p.options],
+    result: (p, row) => ({ ...p, rows: row ? [row] : [] }),
+  },
+  insert: {
+    before: 'beforeInsert', after: 'afterInsert',
+    payload: ([data]) => data,
+    args: data => [data],
+    result: (data, id) => ({ _id: id, ...data }),
+  },
+  bulkInsert: {
+    before: 'beforeBulkInsert', after: 'afterBulkInsert',
+    payload: ([rows]) => rows,
+    args: rows => [rows],
+    result: (rows, affected) => ({ rows, affected }),
+  },
+  update: {
+    before: 'beforeUpdate', after: 'afterUpdate',
+    payload: ([data, where, options]) => ({ data, where, options }),
+    args: p => [p.data, p.where, p.options],
+    result: (p, affected) => ({ ...p, affected }),
+  },
+  set: {
+    before: 'beforeUpsert', after: 'afterUpsert',
+    payload: ([data, where, options]) => ({ data, where, options }),
+    args: p => [p.data, p.where, p.options],
+    result: (p, result) => ({ ...p, result }),
+  },
+  delete: {
+    before: 'beforeDelete', after: 'afterDelete',
+    payload: ([where]) => where,
+    args: where => [where],
+    result: (where, affected) => ({ where, affected }),
+  },
+  increment: {
+    before: 'beforeIncrement', after: 'afterIncrement',
+    payload: ([increments, where]) => ({ increments, where }),
+    args: p => [p.increments, p.where],
+    result: (p, affected) => ({ ...p, affected }),
+  },
+  decrement: {
+    before: 'beforeDecrement', after: 'afterDecrement',
+    payload: ([decrements, where]) => ({ decrements, where }),
+    args: p => [p.decrements, p.where],
+    result: (p, affected) => ({ ...p, affected }),
+  },
+} as Record<string, HookSpec>));
+
+/**
+ * Set while an operation runs, so the calls it makes internally (a `set` that updates, a cache
+ * miss read from the wrapped adapter) do not fire hooks a second time.
+ */
+const activeOperation = new AsyncLocalStorage<boolean>();
+
+/**
+ * Wraps an adapter so every hooked method fires its before/after hooks once per call, with the same
+ * payloads on every adapter. Before-hooks run first and may replace the payload; after-hooks see the result.
+ * Writes to watched tables publish their change events in between.
+ */
+export function applyHooks<T extends IDatabase>(db: T): T {
+  return interceptMethods(db, (name, method) => {
+    const spec = specs.get(name);
+    if (!spec) return undefined;
+    return async function (this: any, table: string, ...args: any[]) {
+      if (activeOperation.getStore()) return method.call(this, table, ...args);
+      const payload = await this.runHooks(spec.before, table, spec.payload(args));
+      const callArgs = spec.args(payload);
+      const result = await activeOperation.run(true, () => withChanges(this, name, table, callArgs, () => method.call(this, table, ...callArgs)));
+      await this.runHooks(spec.after, table, spec.result(payload, result));
+      return result;
+    };
+  });
+}
@@ -11,6 +11,11 @@ import MigrationManager from './migration';
 import ZPackAdapter, { ZPackDatabase } from './zpack';
 import ToonDatabase from './toon';
 import { DataSeeder } from './seeder';
+import { QueryBuilder } from './queryBuilder';
+import { Model } from './model';
+import { ValidationError, UniqueConstraintError, ConcurrencyError } from './errors';
+import { ChangeStream } from './changes';
+import { LocalCacheBus, RedisCacheBus } from './cacheBus';
 
 const adapters: Record<string, any> = {
   mysql: MySQLDatabase,
@@ -39,6 +44,18 @@ export function createDatabase(options: DatabaseOptions): IDatabase {
 
   const DatabaseClass = adapters[adapter];
   const dbInstance = new DatabaseClass(config);
+  for (const [table, schema] of Object.entries((config as any).schemas || {})) {
+    dbInstance.defineSchema(table, schema);
+  }
+  for (const [table, schema] of Object.entries((config as any).validation || {})) {
+    dbInstance.defineValidation(table, schema);
+  }
+  for (const [table, relations] of Object.entries((config as any).relations || {})) {
+    for (const [name, relation] of Object.entries(relations as Record<string, any>)) dbInstance.defineRelation(table, name, relation);
+  }
+  for (const [table, tableOptions] of Object.entries((config as any).tables || {})) {
+    dbInstance.defineTable(table, tableOptions);
+  }
 
   if ((config as any).cache) {
     const wrapper = new CacheWrapper(dbInstance, (config as any).cache);
@@ -60,5 +77,5 @@ export function createDatabase(options: DatabaseOptions): IDatabase {
   return dbInstance as IDatabase;
 }
 
-export { IDatabase, MigrationManager, ZPackDatabase, ZPackAdapter, DataSeeder, ToonDatabase };
+export { IDatabase, MigrationManager, ZPackDatabase, ZPackAdapter, DataSeeder, ToonDatabase, QueryBuilder, Model, ValidationError, UniqueConstraintError, ConcurrencyError, ChangeStream, LocalCacheBus, RedisCacheBus };
 export default createDatabase;
@@ -0,0 +1,149 @@
+// database/indexes.ts
+import { IndexOptions } from './types';
+import { getPath } from './query';
+import { UniqueConstraintError } from './errors';
+
+export interface IndexDefinition {
+  name: string;
+  fields: string[];
+  unique: boolean;
+}
+
+/**
+ * Validates the fields of an index and fills in its default name.
+ */
+export function normalizeIndex(table: string, fields: string | string[], options: IndexOptions = {}): IndexDefinition {
+  const list = Array.isArray(fields) ? fields : [fields];
+  if (!list.length || list.some(f => typeof f !== 'string' || !f)) {
+    throw new Error(`'${table}' tablosu için index alanları boş olmayan metinler olmalıdır.`);
+  }
+  const unique = !!options.unique;
+  const name = options.name || `${unique ? 'uq' : 'idx'}_${table}_${list.join('_')}`.replace(/[^A-Za-z0-9_]/g, '_');
+  return { name, fields: list, unique };
+}
+
+/**
+ * Text form of an indexed value. Values are compared as text, like equality in `matchesWhere`.
+ */
+export function indexValue(value: any): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Values of the indexed fields of a row, or null when any of them is missing or null.
+ */
+export function indexValues(row: any, index: IndexDefinition): any[] | null {
+  const values = index.fields.map(f => getPath(row, f));
+  return values.some(v => v === null || v === undefined) ? null : values;
+}
+
+/**
+ * Single string identifying a key of the index, built from `indexValues`.
+ */
+export function indexKey(values: any[]): string {
+  return JSON.stringify(values.map(indexValue));
+}
+
+/**
+ * Throws a `UniqueConstraintError` when two of the rows share a key of one of the unique indexes.
+ */
+export function assertUnique(table: string, indexes: IndexDefinition[] | undefined, rows: Iterable<any>): void {
+  for (const index of indexes || []) {
+    if (!index.unique) continue;
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const values = indexValues(row, index);
+      if (!values) continue;
+      const key = indexKey(values);
+      if (seen.has(key)) throw new UniqueConstraintError(table, index.fields, values);
+      seen.add(key);
+    }
+  }
+}
+
+/**
+ * CREATE INDEX statement for the SQL adapters. `column` renders each indexed column,
+ * e.g. with a prefix length; only top-level columns can be indexed.
+ */
+export function createIndexSql(table: string, index: IndexDefinition, quote: (name: string) => string, column: (name: string) => string = quote, ifNotExists: boolean = true): string {
+  const nested = index.fields.find(f => f.includes('.'));
+  if (nested) throw new Error(`SQL adaptörlerinde yalnızca sütunlar indexlenebilir: ${nested}`);
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quote(index.name)} ON ${quote(table)} (${index.fields.map(column).join(', ')})`;
+}
+
+/**
+ * In-memory indexes of one table for the file adapters. Each index maps a key to the ids of its rows,
+ * so unique checks and equality lookups don't scan the table.
+ */
+export class MemoryIndex {
+  private rows = new Map<any, any>();
+  private keys = new Map<string, Map<string, Set<any>>>();
+
+  /**
+   * Indexes `rows`, throwing a `UniqueConstraintError` when they already break a unique index.
+   */
+  constructor(private table: string, private indexes: IndexDefinition[], rows: any[]) {
+    for (const index of indexes) this.keys.set(index.name, new Map());
+    this.check(rows);
+    this.add(rows);
+  }
+
+  /**
+   * Throws a `UniqueConstraintError` when adding `added` in place of `removed` would break a unique index.
+   */
+  check(added: any[], removed: any[] = []): void {
+    const replaced = new Set(removed.map(r => r._id));
+    for (const index of this.indexes) {
+      if (!index.unique) continue;
+      const seen = new Set<string>();
+      for (const row of added) {
+        const values = indexValues(row, index);
+        if (!values) continue;
+        const key = indexKey(values);
+        const owners = Array.from(this.keys.get(index.name)!.get(key) || []);
+        if (seen.has(key) || owners.some(id => !replaced.has(id))) throw new UniqueConstraintError(this.table, index.fields, values);
+        seen.add(key);
+      }
+    }
+  }
+
+  add(rows: any[]): void {
+    for (const row of rows) {
+      this.rows.set(row._id, row);
+      for (const index of this.indexes) {
+        const values = indexValues(row, index);
+        if (!values) continue;
+        const keys = this.keys.get(index.name)!, key = indexKey(values);
+        if (!keys.has(key)) keys.set(key, new Set());
+        keys.get(key)!.add(row._id);
+      }
+    }
+  }
+
+  remove(rows: any[]): void {
+    for (const row of rows) {
+      this.rows.delete(row._id);
+      for (const index of this.indexes) {
+        const values = indexValues(row, index);
+        if (!values) continue;
+        const keys = this.keys.get(index.name)!, key = indexKey(values);
+        keys.get(key)?.delete(row._id);
+        if (!keys.get(key)?.size) keys.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Rows that may match `where`, in id order, when it sets every field of an index to a plain value;
+   * null when no index applies.
+   */
+  candidates(where: Record<string, any> | null | undefined): any[] | null {
+    if (!where) return null;
+    const plain = (v: any) => ['string', 'number', 'boolean'].includes(typeof v);
+    const index = this.indexes.find(i => i.fields.every(f => plain(where[f])));
+    if (!index) return null;
+    const ids = this.keys.get(index.name)!.get(indexKey(index.fields.map(f => where[f]))) || [];
+    return Array.from(ids).sort((a, b) => a - b).map(id => this.rows.get(id));
+  }
+}
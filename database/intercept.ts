@@ -0,0 +1,19 @@
+// database/intercept.ts
+
+/**
+ * Proxies a database so the methods `wrap` returns a replacement for run through it. Wrappers are created
+ * once per method, so `db.select === db.select` still holds, and `this` stays whatever the call used
+ * (the proxy itself, or a transaction scope built on top of it).
+ */
+export function interceptMethods<T extends object>(db: T, wrap: (name: string, method: Function) => Function | undefined): T {
+  const wrappers = new WeakMap<Function, Function | null>();
+  return new Proxy(db, {
+    get: (target, prop, receiver) => {
+      const value: any = Reflect.get(target, prop, receiver);
+      // Functions set on the instance itself (e.g. test spies) already wrap what they replaced
+      if (typeof prop !== 'string' || typeof value !== 'function' || Object.prototype.hasOwnProperty.call(target, prop)) return value;
+      if (!wrappers.has(value)) wrappers.set(value, wrap(prop, value) || null);
+      return wrappers.get(value) || value;
+    }
+  });
+}
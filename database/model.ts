@@ -0,0 +1,174 @@
+// database/model.ts
+import type { IDatabase } from './IDatabase';
+import type { QueryBuilder } from './queryBuilder';
+import { ColumnType, ColumnDefinition, TableSchema, SortDirection, StreamOptions, Page, UpdateOptions, ReadOptions } from './types';
+
+/** TypeScript type stored in a column of the given schema type. */
+export interface ColumnTypes {
+  string: string;
+  text: string;
+  integer: number;
+  number: number;
+  boolean: boolean;
+  date: Date;
+  json: any;
+}
+
+type TypeOf<D> = D extends ColumnType ? ColumnTypes[D] : D extends ColumnDefinition ? ColumnTypes[D['type']] : never;
+
+type RequiredKey<S extends TableSchema> = { [K in keyof S]: S[K] extends { nullable: false } | { primaryKey: true } ? K : never }[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Row type described by a runtime table schema. Columns are optional unless declared `nullable: false`
+ * or as the primary key.
+ */
+export type InferSchema<S extends TableSchema> = Flatten<
+  { [K in RequiredKey<S>]: TypeOf<S[K]> } & { [K in Exclude<keyof S, RequiredKey<S>>]?: TypeOf<S[K]> }
+>;
+
+/** A row as read back from the database, with its generated `_id`. */
+export type Stored<T> = T & { _id: any };
+
+export type FieldCondition<V> = V | null | {
+  $eq?: V | null;
+  $ne?: V | null;
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $in?: V[];
+  $nin?: V[];
+  $like?: string;
+  $exists?: boolean;
+};
+
+/** Where clause whose keys and values are checked against the row type. */
+export type ModelWhere<T> = { [K in keyof T]?: FieldCondition<T[K]> } & {
+  _id?: FieldCondition<any>;
+  $and?: ModelWhere<T>[];
+  $or?: ModelWhere<T>[];
+  $not?: ModelWhere<T>;
+};
+
+type Key<T> = Extract<keyof T, string>;
+type NumericKey<T> = { [K in Key<T>]: T[K] extends number | null | undefined ? K : never }[Key<T>];
+
+export interface ModelSelectOptions<T, F extends Key<T> = Key<T>> extends ReadOptions {
+  orderBy?: Partial<Record<Key<T> | '_id', SortDirection>>;
+  limit?: number;
+  offset?: number;
+  fields?: F[];
+  include?: string[];
+  withDeleted?: boolean;
+}
+
+export interface ModelPaginateOptions<T> {
+  where?: ModelWhere<T> | null;
+  orderBy?: Partial<Record<Key<T>, SortDirection>>;
+  after?: string | null;
+  limit?: number;
+}
+
+/**
+ * Typed view of a single table. Every call is forwarded to the wrapped database, so it works
+ * with any adapter (and with the cache wrapper); only the field names and values are checked.
+ */
+export class Model<T extends Record<string, any>> {
+  private db: IDatabase;
+  public readonly table: string;
+
+  constructor(database: IDatabase, table: string) {
+    this.db = database;
+    this.table = table;
+  }
+
+  async insert(data: T): Promise<any> {
+    return this.db.insert(this.table, data);
+  }
+
+  async bulkInsert(rows: T[]): Promise<number> {
+    return this.db.bulkInsert(this.table, rows);
+  }
+
+  async select(where?: ModelWhere<T> | null): Promise<Stored<T>[]>;
+  async select<F extends Key<T>>(where: ModelWhere<T> | null | undefined, options: ModelSelectOptions<T, F> & { fields: F[] }): Promise<Pick<Stored<T>, F>[]>;
+  async select(where?: ModelWhere<T> | null, options?: ModelSelectOptions<T>): Promise<Stored<T>[]>;
+  async select(where: ModelWhere<T> | null = null, options: ModelSelectOptions<T> = {}): Promise<Stored<T>[]> {
+    return this.db.select<Stored<T>>(this.table, where, options);
+  }
+
+  async selectOne(where: ModelWhere<T> | null = null, options?: ReadOptions): Promise<Stored<T> | null> {
+    return this.db.selectOne<Stored<T>>(this.table, where, options);
+  }
+
+  stream(where: ModelWhere<T> | null = null, options?: StreamOptions): AsyncIterable<Stored<T>> {
+    return this.db.stream<Stored<T>>(this.table, where, options);
+  }
+
+  async paginate(options: ModelPaginateOptions<T> = {}): Promise<Page<Stored<T>>> {
+    return this.db.paginate<Stored<T>>(this.table, options);
+  }
+
+  async count(where: ModelWhere<T> | null = null): Promise<number> {
+    return this.db.count(this.table, where);
+  }
+
+  async exists(where: ModelWhere<T> | null = null): Promise<boolean> {
+    return this.db.exists(this.table, where);
+  }
+
+  async distinct<K extends Key<T>>(field: K, where: ModelWhere<T> | null = null): Promise<T[K][]> {
+    return this.db.distinct<T[K]>(this.table, field, where);
+  }
+
+  async update(data: Partial<T>, where: ModelWhere<T>, options?: UpdateOptions): Promise<number> {
+    return this.db.update(this.table, data, where, options);
+  }
+
+  async set(data: Partial<T>, where: ModelWhere<T>, options?: UpdateOptions): Promise<any> {
+    return this.db.set(this.table, data, where, options);
+  }
+
+  async delete(where: ModelWhere<T>): Promise<number> {
+    return this.db.delete(this.table, where);
+  }
+
+  async increment(fields: Partial<Record<NumericKey<T>, number>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.increment(this.table, fields as Record<string, number>, where);
+  }
+
+  async decrement(fields: Partial<Record<NumericKey<T>, number>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.decrement(this.table, fields as Record<string, number>, where);
+  }
+
+  async push(fields: Partial<Record<Key<T>, any>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.push(this.table, fields, where);
+  }
+
+  async pull(fields: Partial<Record<Key<T>, any>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.pull(this.table, fields, where);
+  }
+
+  async addToSet(fields: Partial<Record<Key<T>, any>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.addToSet(this.table, fields, where);
+  }
+
+  async merge(fields: Partial<Record<Key<T>, Record<string, any>>>, where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.merge(this.table, fields as Record<string, Record<string, any>>, where);
+  }
+
+  async unset(fields: Key<T> | Key<T>[], where: ModelWhere<T> = {}): Promise<number> {
+    return this.db.unset(this.table, fields, where);
+  }
+
+  /**
+   * Starts a fluent query on the model's table.
+   */
+  query(): QueryBuilder<Stored<T>> {
+    return this.db.table<Stored<T>>(this.table);
+  }
+}
+
+export default Model;
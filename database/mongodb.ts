@@ -1,10 +1,16 @@
 import { IDatabase } from './IDatabase';
-import { MongoClient, Db, ObjectId } from "mongodb";
-import { MongoDBConfig } from './types';
+import { MongoClient, Db, ObjectId, ClientSession, ChangeStream as MongoChangeStream } from "mongodb";
+import { MongoDBConfig, WhereClause, SelectOptions, AggregateOptions, StreamOptions, IndexOptions, ChangeOp } from './types';
+import { isOperatorObject, likeToRegExp, withFieldPresent, parseAggregate, normalizeAggregateRow, matchesWhere, batchSizeOf, INCREMENT } from './query';
+import { normalizeIndex } from './indexes';
+import { relationColumns, IncludeNode } from './relations';
+import { UniqueConstraintError } from './errors';
 
 export class MongoDBDatabase extends IDatabase {
   private client: MongoClient;
   private db: Db | null = null;
+  private _session: ClientSession | null = null;
+  private _changeStream: MongoChangeStream | null = null;
   private _isConnected: boolean = false;
   private _queue: Array<{ operation: () => Promise<any>; resolve: (val: any) => void; reject: (err: any) => void }> = [];
 
@@ -50,70 +56,208 @@ export class MongoDBDatabase extends IDatabase {
   }
 
   private async _execute<T>(fn: () => Promise<T>): Promise<T> {
+    const operation = () => fn().catch(error => { throw this._mapError(error); });
     if (this._isConnected) {
-      return fn();
+      return operation();
     }
     return new Promise((resolve, reject) => {
-      this._queue.push({ operation: fn, resolve, reject });
+      this._queue.push({ operation, resolve, reject });
     });
   }
 
+  /**
+   * Turns E11000 duplicate key errors into a `UniqueConstraintError`.
+   */
+  private _mapError(error: any): any {
+    // insertMany reports the failed document in writeErrors
+    const source = error?.code === 11000 ? error : error?.writeErrors?.[0];
+    if (source?.code !== 11000) return error;
+    const message = String(source.errmsg || source.message || '');
+    const collection = /collection: [^.]+\.(\S+)/.exec(message)?.[1] || '';
+    const name = /index: (\S+)/.exec(message)?.[1];
+    const keyPattern = source.keyPattern || source.err?.keyPattern;
+    const keyValue = source.keyValue || source.err?.keyValue;
+    const fields = keyPattern ? Object.keys(keyPattern) : this.indexes[collection]?.find(i => i.name === name)?.fields || [name || '_id'];
+    return new UniqueConstraintError(collection, fields, keyValue ? Object.values(keyValue) : undefined);
+  }
+
   // --- Implementations ---
 
   async insert(collection: string, data: any): Promise<string> {
-    await this.runHooks('beforeInsert', collection, data);
+    this.validate(collection, data);
     return this._execute(async () => {
-      const res = await this.db!.collection(collection).insertOne(data);
+      const res = await this.db!.collection(collection).insertOne(data, this._options);
       const newId = res.insertedId.toString();
-      const finalData = { _id: newId, ...data };
-      await this.runHooks('afterInsert', collection, finalData);
       return newId;
     });
   }
 
   async update(collection: string, data: any, where: any): Promise<number> {
-    await this.runHooks('beforeUpdate', collection, { data, where });
+    this.validate(collection, data, true);
     const formattedWhere = this._formatQuery(where);
     return this._execute(async () => {
-      const res = await this.db!.collection(collection).updateMany(formattedWhere, { $set: data });
+      const res = await this.db!.collection(collection).updateMany(formattedWhere, this._formatUpdate(data), this._options);
       return res.modifiedCount;
     });
   }
 
   async delete(collection: string, where: any): Promise<number> {
-    await this.runHooks('beforeDelete', collection, where);
     const formattedWhere = this._formatQuery(where);
     return this._execute(async () => {
-      const res = await this.db!.collection(collection).deleteMany(formattedWhere);
+      const res = await this.db!.collection(collection).deleteMany(formattedWhere, this._options);
       return res.deletedCount;
     });
   }
 
-  async select<T = any>(collection: string, where: any = {}): Promise<T[]> {
+  async select<T = any>(collection: string, where: any = {}, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(collection, where, options);
     const formattedWhere = this._formatQuery(where);
     return this._execute(async () => {
-      const docs = await this.db!.collection(collection).find(formattedWhere).toArray();
+      let cursor = this.db!.collection(collection).find(formattedWhere, this._options);
+      if (options.fields && options.fields.length) {
+        const projection: Record<string, number> = { _id: 0 };
+        for (const f of options.fields) projection[f] = 1;
+        cursor = cursor.project(projection);
+      }
+      if (options.orderBy) {
+        const sort: Record<string, 1 | -1> = {};
+        for (const [f, dir] of Object.entries(options.orderBy)) sort[f] = String(dir).toLowerCase() === 'desc' ? -1 : 1;
+        cursor = cursor.sort(sort);
+      }
+      if (options.offset) cursor = cursor.skip(options.offset);
+      // Mongo treats limit(0) as "no limit"
+      if (options.limit === 0) return [];
+      if (options.limit !== undefined) cursor = cursor.limit(options.limit);
+      const docs = await cursor.toArray();
       return docs.map(doc => this._serialize(doc)) as T[];
     });
   }
 
+  /**
+   * Loads a relation and its nested relations with `$lookup` from the selected documents, in one aggregation.
+   * Keys are compared as text, so references stored as strings still match ObjectIds.
+   */
+  protected override async loadRelation(collection: string, rows: any[], node: IncludeNode): Promise<void> {
+    if (!rows.length) return;
+    const docs = await this._execute(() => this.db!.collection(collection).aggregate([
+      { $match: this._formatQuery({ _id: { $in: rows.map(r => r._id) } }) },
+      this._lookup(node),
+      { $project: { [node.name]: 1 } },
+    ], this._options).toArray());
+    const byId = new Map(docs.map(doc => [String(doc._id), doc[node.name] as any[]]));
+    for (const row of rows) {
+      const related = (byId.get(String(row._id)) || []).map(doc => this._nest(doc, node.children));
+      row[node.name] = node.relation.type === 'hasMany' ? related : related[0] ?? null;
+    }
+  }
+
+  private _lookup(node: IncludeNode): any {
+    const { local, remote } = relationColumns(node.relation);
+    const conditions: any[] = [{ $expr: { $and: [{ $ne: ['$$key', null] }, { $eq: [{ $toString: `$${remote}` }, '$$key'] }] } }];
+    if (this.tables[node.relation.table]?.softDelete) conditions.push(this._formatQuery({ deletedAt: { $exists: false } }));
+    return {
+      $lookup: {
+        from: node.relation.table,
+        let: { key: { $toString: `$${local}` } },
+        pipeline: [{ $match: { $and: conditions } }, ...node.children.map(child => this._lookup(child))],
+        as: node.name,
+      }
+    };
+  }
+
+  private _nest(doc: any, nodes: IncludeNode[]): any {
+    const out = this._serialize(doc);
+    for (const node of nodes) {
+      const related = (doc[node.name] || []).map((d: any) => this._nest(d, node.children));
+      out[node.name] = node.relation.type === 'hasMany' ? related : related[0] ?? null;
+    }
+    return out;
+  }
+
+  async *stream<T = any>(collection: string, where: any = {}, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    const formattedWhere = this._formatQuery(where);
+    const cursor = await this._execute(async () => this.db!.collection(collection).find(formattedWhere, this._options).batchSize(batchSize));
+    try {
+      for await (const doc of cursor) yield this._serialize(doc) as T;
+    } finally {
+      await cursor.close();
+    }
+  }
+
   async selectOne<T = any>(collection: string, where: any = {}): Promise<T | null> {
     const formattedWhere = this._formatQuery(where);
     return this._execute(async () => {
-      const doc = await this.db!.collection(collection).findOne(formattedWhere);
+      const doc = await this.db!.collection(collection).findOne(formattedWhere, this._options);
       return doc ? this._serialize(doc) as T : null;
     });
   }
 
+  async count(collection: string, where: any = {}): Promise<number> {
+    const formattedWhere = this._formatQuery(where);
+    return this._execute(() => this.db!.collection(collection).countDocuments(formattedWhere, this._options));
+  }
+
+  async exists(collection: string, where: any = {}): Promise<boolean> {
+    const formattedWhere = this._formatQuery(where);
+    return this._execute(async () => {
+      const doc = await this.db!.collection(collection).findOne(formattedWhere, { ...this._options, projection: { _id: 1 } });
+      return doc !== null;
+    });
+  }
+
+  async distinct<T = any>(collection: string, field: string, where: any = {}): Promise<T[]> {
+    const formattedWhere = this._formatQuery(withFieldPresent(where, field));
+    return this._execute(async () => {
+      const values = await this.db!.collection(collection).distinct(field, formattedWhere, this._options);
+      return values.map(v => field === '_id' ? String(v) : v) as T[];
+    });
+  }
+
+  async aggregate(collection: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    const { groupBy, metrics } = parseAggregate(options);
+    // Group keys go under aliases: expression field names can't contain dots, and dotted projections nest
+    const alias = (f: string) => `g${groupBy.indexOf(f)}`;
+    const group: any = { _id: groupBy.length ? Object.fromEntries(groupBy.map(f => [alias(f), `$${f}`])) : null };
+    const project: any = { _id: 0 };
+    for (const f of groupBy) project[alias(f)] = `$_id.${alias(f)}`;
+    for (const [alias, op, field] of metrics) {
+      project[alias] = 1;
+      if (op !== '$count') group[alias] = { [op]: { $convert: { input: `$${field}`, to: 'double', onError: null, onNull: null } } };
+      else if (field === '*') group[alias] = { $sum: 1 };
+      // BSON ordering puts missing < null < everything else
+      else group[alias] = { $sum: { $cond: [{ $gt: [`$${field}`, null] }, 1, 0] } };
+    }
+    const pipeline: any[] = [{ $match: this._formatQuery(options.where || {}) }, { $group: group }, { $project: project }];
+    if (options.having && Object.keys(options.having).length) {
+      const having = Object.fromEntries(Object.entries(options.having).map(([k, v]) => [groupBy.includes(k) ? alias(k) : k, v]));
+      pipeline.push({ $match: this._formatQuery(having) });
+    }
+    return this._execute(async () => {
+      const rows = await this.db!.collection(collection).aggregate(pipeline, this._options).toArray();
+      // $group yields nothing for an empty collection; SQL returns a single row
+      if (!groupBy.length && !rows.length) {
+        const empty = normalizeAggregateRow({}, metrics);
+        return matchesWhere(empty, options.having) ? [empty] : [];
+      }
+      return rows.map(r => {
+        const out: Record<string, any> = Object.fromEntries(groupBy.map(f => [f, r[alias(f)] ?? null]));
+        for (const [name] of metrics) out[name] = r[name];
+        return normalizeAggregateRow(out, metrics);
+      });
+    });
+  }
+
   async set(collection: string, data: any, where: any): Promise<any> {
     const ex = await this.selectOne(collection, where);
     return ex ? this.update(collection, data, where) : this.insert(collection, { ...where, ...data });
   }
 
   async bulkInsert(collection: string, dataArray: any[]): Promise<number> {
+    this.validate(collection, dataArray);
     if (!dataArray.length) return 0;
     return this._execute(async () => {
-      const res = await this.db!.collection(collection).insertMany(dataArray);
+      const res = await this.db!.collection(collection).insertMany(dataArray, this._options);
       return res.insertedCount;
     });
   }
@@ -121,7 +265,7 @@ export class MongoDBDatabase extends IDatabase {
   async increment(collection: string, incs: Record<string, number>, where: any = {}): Promise<number> {
     const formattedWhere = this._formatQuery(where);
     return this._execute(async () => {
-      const res = await this.db!.collection(collection).updateMany(formattedWhere, { $inc: incs });
+      const res = await this.db!.collection(collection).updateMany(formattedWhere, { $inc: incs }, this._options);
       return res.modifiedCount;
     });
   }
@@ -132,23 +276,151 @@ export class MongoDBDatabase extends IDatabase {
     return this.increment(collection, incs, where);
   }
 
+  /**
+   * Unique indexes only cover documents that have every field, so missing fields are never duplicates.
+   */
+  async createIndex(collection: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(collection, fields, options);
+    return this._execute(async () => {
+      const spec = Object.fromEntries(index.fields.map(f => [f, 1 as const]));
+      const partial = index.unique ? { partialFilterExpression: Object.fromEntries(index.fields.map(f => [f, { $exists: true }])) } : {};
+      await this.db!.collection(collection).createIndex(spec, { name: index.name, unique: index.unique, ...partial });
+      this.registerIndex(collection, index);
+    });
+  }
+
+  /**
+   * Writes are observed through change streams, so nothing is captured on the way in.
+   */
+  protected override capturesChanges(): boolean {
+    return false;
+  }
+
+  /**
+   * Opens a database-wide change stream (replica set required). `before` is only filled in when the
+   * collection has pre-images enabled; deletes otherwise carry just the `_id`.
+   */
+  protected override async startWatching(): Promise<void> {
+    await this._execute(async () => {});
+    const ops: Record<string, ChangeOp> = { insert: 'insert', update: 'update', replace: 'update', delete: 'delete' };
+    const stream = this.db!.watch([], { fullDocument: 'updateLookup', fullDocumentBeforeChange: 'whenAvailable' });
+    stream.on('change', (change: any) => {
+      const op = ops[change.operationType];
+      if (!op) return;
+      this.deliverChange({
+        op,
+        table: change.ns.coll,
+        before: this._serialize(change.fullDocumentBeforeChange) ?? (op === 'delete' ? { _id: String(change.documentKey._id) } : null),
+        after: op === 'delete' ? null : this._serialize(change.fullDocument) ?? null,
+        ts: change.wallTime ? new Date(change.wallTime).getTime() : Date.now(),
+      });
+    });
+    stream.on('error', (error) => { for (const watcher of this.watchers) watcher.fail(error); });
+    this._changeStream = stream;
+  }
+
+  protected override async stopWatching(): Promise<void> {
+    const stream = this._changeStream;
+    this._changeStream = null;
+    if (stream) await stream.close().catch(() => {});
+  }
+
   async close(): Promise<void> {
+    await this.closeWatchers();
     if (this.client) await this.client.close();
     this._isConnected = false;
   }
 
+  /**
+   * Requires a replica set or sharded cluster; standalone servers reject transactions.
+   */
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let session: ClientSession | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        await this._execute(async () => {});
+        session = this.client.startSession();
+        session.startTransaction();
+        return { _session: session };
+      },
+      commit: async () => { await session!.commitTransaction(); },
+      rollback: async () => { if (session!.inTransaction()) await session!.abortTransaction(); },
+      release: () => session?.endSession(),
+    });
+  }
+
+  private get _options(): { session?: ClientSession } {
+    return this._session ? { session: this._session } : {};
+  }
+
+  /**
+   * Turns an update into MongoDB operators: plain fields go to `$set`, `$inc` and the array operators
+   * map to their native counterparts, and `$merge` sets each key of the sub-object.
+   */
+  private _formatUpdate(data: Record<string, any>): any {
+    const { [INCREMENT]: incs, $push, $pull, $addToSet, $merge, $unset, ...fields } = data;
+    for (const [field, value] of Object.entries($merge || {})) {
+      for (const [key, v] of Object.entries(value as Record<string, any>)) fields[`${field}.${key}`] = v;
+    }
+    const update: any = {};
+    if (Object.keys(fields).length) update.$set = fields;
+    if (incs) update.$inc = incs;
+    if ($push) update.$push = $push;
+    if ($pull) update.$pull = $pull;
+    if ($addToSet) update.$addToSet = $addToSet;
+    if ($unset) update.$unset = Object.fromEntries(Object.keys($unset).map(field => [field, '']));
+    return update;
+  }
+
   // Helper: _id handling and query formatting
-  private _formatQuery(where: any): any {
+  private _formatQuery(where: WhereClause | null): any {
     if (!where) return {};
-    const query: any = { ...where };
-    if (query._id && typeof query._id === 'string' && ObjectId.isValid(query._id)) {
-      query._id = new ObjectId(query._id);
+    const query: any = {};
+    for (const [field, cond] of Object.entries(where)) {
+      if (field === '$and' || field === '$or') {
+        // Mongo rejects empty groups, so they are expressed as always-true / always-false filters
+        const groups = (cond as WhereClause[]).map(w => this._formatQuery(w));
+        if (field === '$or' && groups.length) query.$or = groups;
+        else query.$and = [...(query.$and || []), ...(groups.length ? groups : field === '$or' ? [{ _id: { $in: [] } }] : [])];
+        if (query.$and && !query.$and.length) delete query.$and;
+        continue;
+      }
+      if (field === '$not') {
+        // Mongo has no top-level $not; $nor with a single branch is equivalent
+        query.$nor = [this._formatQuery(cond)];
+        continue;
+      }
+      if (!isOperatorObject(cond)) {
+        query[field] = field === '_id' ? this._toObjectId(cond) : cond;
+        continue;
+      }
+      const formatted: any = {};
+      let exists: any = null;
+      for (const [op, v] of Object.entries(cond as Record<string, any>)) {
+        if (op === '$like') {
+          formatted.$regex = likeToRegExp(v);
+        } else if (op === '$exists') {
+          // null and missing fields are treated the same across adapters
+          exists = v ? { $ne: null } : { $eq: null };
+        } else if (field === '_id') {
+          formatted[op] = Array.isArray(v) ? v.map(x => this._toObjectId(x)) : this._toObjectId(v);
+        } else {
+          formatted[op] = v;
+        }
+      }
+      // The existence check is its own clause, so it can't overwrite a $ne / $eq the caller gave
+      if (exists && Object.keys(formatted).length) query.$and = [...(query.$and || []), { [field]: exists }];
+      query[field] = Object.keys(formatted).length ? formatted : exists || formatted;
     }
     return query;
   }
 
+  private _toObjectId(v: any): any {
+    return typeof v === 'string' && ObjectId.isValid(v) ? new ObjectId(v) : v;
+  }
+
   private _serialize(doc: any): any {
-    if (!doc) return doc;
+    if (!doc || doc._id === undefined) return doc;
     const { _id, ...rest } = doc;
     // _id'yi string olarak döndür, ZeroHelper standardı
     return { _id: _id.toString(), ...rest };
@@ -1,13 +1,45 @@
 import { IDatabase } from './IDatabase';
-import mysql, { Pool } from "mysql2/promise";
-import { MySQLConfig } from './types';
+import mysql, { Pool, PoolConnection } from "mysql2/promise";
+import { MySQLConfig, WhereClause, SelectOptions, AggregateOptions, StreamOptions, IndexOptions } from './types';
+import { compileWhere, compileAssignments, compileSelectOptions, projectRow, whereColumns, optionColumns, compileDistinct, compileAggregate, aggregateColumns, parseAggregate, normalizeAggregateRow, batchSizeOf, pathColumns, assignPaths, hasFieldOperators, jsonPathLiteral, parentsPatchLiteral, SqlDialect } from './query';
+import { createColumnsSql, missingColumnsSql, decodeRow, encodeRow, SchemaDialect } from './schema';
+import { normalizeIndex, createIndexSql } from './indexes';
+import { compileJoin, attachJoined, includeTables, IncludeNode } from './relations';
+import { UniqueConstraintError } from './errors';
 
 export class MySQLDatabase extends IDatabase {
   private config: MySQLConfig;
   private pool: Pool | null = null;
+  private _connection: PoolConnection | null = null;
   private _queue: Array<{ operation: () => Promise<any>; resolve: (val: any) => void; reject: (err: any) => void }> = [];
   private _connected: boolean = false;
   private _connectionPromise: Promise<Pool>;
+  private _dialect: SqlDialect = {
+    quote: (f) => `\`${f}\``,
+    placeholder: () => '?',
+    serialize: (v) => this._serializeValue(v),
+    // Columns are created as TEXT, so numeric comparisons and ordering need an explicit cast
+    numeric: (col) => `(${col} + 0)`,
+    noLimit: '18446744073709551615',
+    json: {
+      extract: (col, keys) => `JSON_UNQUOTE(JSON_EXTRACT(IF(JSON_VALID(${col}), ${col}, NULL), ${jsonPathLiteral(keys)}))`,
+      document: (col) => `IF(JSON_VALID(${col}), ${col}, '{}')`,
+      assign: (doc, keys, value) => {
+        const parents = parentsPatchLiteral(keys);
+        return `JSON_SET(${parents ? `JSON_MERGE_PATCH(${doc}, ${parents})` : doc}, ${jsonPathLiteral(keys)}, ${value})`;
+      },
+      parse: (p) => `CAST(${p} AS JSON)`,
+      number: (expr) => expr,
+    },
+  };
+
+  private _schemaDialect: SchemaDialect = {
+    types: { string: 'VARCHAR(255)', text: 'TEXT', integer: 'INT', number: 'DOUBLE', boolean: 'BOOLEAN', date: 'DATETIME', json: 'JSON' },
+    quote: (name) => this._dialect.quote(name),
+    untyped: (name) => `${this._dialect.quote(name)} TEXT`,
+    // TEXT and JSON columns only accept expression defaults
+    defaultValue: (literal, type) => type === 'text' || type === 'json' ? `(${literal})` : literal,
+  };
 
   constructor(config: MySQLConfig) {
     super();
@@ -75,7 +107,7 @@ ${config.database}
     let retries = 3;
     while (retries > 0) {
       try {
-        const [rows] = await pool.execute(sql, params);
+        const [rows] = await (this._connection ?? pool).execute(sql, params);
         return rows;
       } catch (error: any) {
         if ((error.code === 'ER_CON_COUNT_ERROR' || error.message.includes('Too many connections')) && retries > 1) {
@@ -83,7 +115,7 @@ ${config.database}
           await new Promise(r => setTimeout(r, 1000)); // Wait 1s and retry
           continue;
         }
-        throw error;
+        throw this._mapError(error);
       }
     }
   }
@@ -93,14 +125,10 @@ ${config.database}
 ${table}
 `).catch(() => []);
     const columnNames = existingColumns.map(col => col.Field);
-    for (const key of Object.keys(data)) {
-      if (key !== '_id' && !columnNames.includes(key)) {
-        await this.query(`ALTER TABLE
+    for (const def of missingColumnsSql(this.schemas[table], data, columnNames, this._schemaDialect)) {
+      await this.query(`ALTER TABLE
 ${table}
- ADD COLUMN
-${key}
- TEXT`);
-      }
+ ADD COLUMN ${def}`);
     }
   }
 
@@ -108,9 +136,7 @@ ${key}
     const escapedTable = mysql.escape(table);
     const tables: any[] = await this.query(`SHOW TABLES LIKE ${escapedTable}`);
     if (tables.length === 0) {
-      const defs = Object.keys(data).map(k => `
-${k}
- TEXT`);
+      const defs = createColumnsSql(this.schemas[table], data, this._schemaDialect);
       const columnsPart = defs.length > 0 ? ', ' + defs.join(", ") : '';
       await this.query(`CREATE TABLE
 ${table}
@@ -121,7 +147,7 @@ ${table}
   }
 
   async insert(table: string, data: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeInsert', table, data);
+    this.validate(table, data);
     return this._execute('insert', table, async () => {
       await this.ensureTable(table, data);
       const keys = Object.keys(data);
@@ -130,82 +156,182 @@ ${table}
  (${keys.map(k => `
 ${k}
 `).join(",")}) VALUES (${keys.map(() => '?').join(",")})`;
-      const result = await this.query(sql, Object.values(data).map(v => typeof v === 'object' ? JSON.stringify(v) : v));
-      const finalData = { _id: result.insertId, ...data };
-      await this.runHooks('afterInsert', table, finalData);
+      const result = await this.query(sql, Object.values(encodeRow(data, this.schemas[table])).map(v => this._serializeValue(v)));
       return result.insertId;
     });
   }
 
   async update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeUpdate', table, { data, where });
+    this.validate(table, data, true);
+    if (hasFieldOperators(data)) return this._updateInPlace(table, data, where);
     return this._execute('update', table, async () => {
-      await this.ensureTable(table, { ...data, ...where });
-      const set = Object.keys(data).map(k => `
-${k}
- = ?`).join(", ");
-      const wKeys = Object.keys(where);
+      await this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) });
+      const { set, values } = compileAssignments(encodeRow(data, this.schemas[table]), this._dialect);
+      const { whereClause, values: whereValues } = this._buildWhereClause(where);
       const sql = `UPDATE
 ${table}
- SET ${set} WHERE ${wKeys.map(k => `
-${k}
- = ?`).join(" AND ")}`;
-      const result = await this.query(sql, [...Object.values(data).map(v => typeof v === 'object' ? JSON.stringify(v) : v), ...Object.values(where).map(v => typeof v === 'object' ? JSON.stringify(v) : v)]);
+ SET ${set} ${whereClause}`;
+      const result = await this.query(sql, [...values, ...whereValues]);
       return result.affectedRows;
     });
   }
 
+  /**
+   * Runs updates that depend on the current value of a field (`push`, `pull`, ...): the rows are locked
+   * with `SELECT ... FOR UPDATE`, changed in memory and written back inside one transaction.
+   */
+  private async _updateInPlace(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
+    // Columns are added up front, DDL inside the transaction would commit it early
+    await this._execute('update', table, () => this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) }));
+    return this.transaction(tx => (tx as unknown as MySQLDatabase)._rewriteRows(table, data, where));
+  }
+
+  private async _rewriteRows(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
+    const { whereClause, values } = this._buildWhereClause(where);
+    const rows = await this.query(`SELECT * FROM \`${table}\` ${whereClause} FOR UPDATE`, values);
+    const columns = Object.keys(pathColumns(data));
+    for (const row of rows) {
+      const updated = assignPaths(this._decodeRow(table, row), data);
+      const changes = Object.fromEntries(columns.map(c => [c, updated[c] ?? null]));
+      const { set, values: setValues } = compileAssignments(encodeRow(changes, this.schemas[table]), this._dialect);
+      await this.query(`UPDATE \`${table}\` SET ${set} WHERE \`_id\` = ?`, [...setValues, row._id]);
+    }
+    return rows.length;
+  }
+
   async delete(table: string, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeDelete', table, where);
     return this._execute('delete', table, async () => {
-      await this.ensureTable(table, where);
-      const keys = Object.keys(where);
-      const whereClause = keys.length > 0 ? `WHERE ${keys.map(k => `
-${k}
- = ?`).join(" AND ")}` : '';
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
       const sql = `DELETE FROM
 ${table}
  ${whereClause}`;
-      const result = await this.query(sql, Object.values(where).map(v => typeof v === 'object' ? JSON.stringify(v) : v));
+      const result = await this.query(sql, values);
       return result.affectedRows;
     });
   }
 
-  async select<T = any>(table: string, where: Record<string, any> | null = null): Promise<T[]> {
+  async select<T = any>(table: string, where: Record<string, any> | null = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
     return this._execute('select', table, async () => {
-      await this.ensureTable(table, where || {});
-      const keys = where ? Object.keys(where) : [];
-      const sql = `SELECT * FROM
+      await this.ensureTable(table, { ...whereColumns(where), ...optionColumns(options) });
+      const { whereClause, values } = this._buildWhereClause(where);
+      const { columns, suffix } = compileSelectOptions(options, this._dialect);
+      const sql = `SELECT ${columns} FROM
 ${table}
- ` + (keys.length ? ' WHERE ' + keys.map(k => `
-${k}
- = ?`).join(" AND ") : '');
-      const rows = await this.query(sql, keys.map(k => typeof where![k] === 'object' ? JSON.stringify(where![k]) : where![k]));
-      return rows.map((row: any) => {
-        const nr: any = {};
-        for (const k in row) { try { nr[k] = JSON.parse(row[k]); } catch { nr[k] = row[k]; } }
-        return nr as T;
-      });
+ ${whereClause}${suffix}`;
+      const rows = await this.query(sql, values);
+      return rows.map((row: any) => projectRow<T>(this._decodeRow(table, row), options.fields));
+    });
+  }
+
+  /**
+   * Streams rows from an unbuffered query on a dedicated connection (or the active db.transaction one).
+   */
+  /**
+   * Loads a relation and its nested relations with LEFT JOINs from the selected rows, in one query.
+   * Relations keyed on dot-paths or on columns that don't exist yet are loaded with `$in` instead.
+   */
+  protected override async loadRelation(table: string, rows: any[], node: IncludeNode): Promise<void> {
+    if (!rows.length) return;
+    const tables = Array.from(new Set([table, ...includeTables(node)]));
+    const join = await this._execute('select', table, async () => {
+      const columns: Record<string, string[]> = Object.fromEntries(tables.map(t => [t, []]));
+      const info: any[] = await this.query(`SELECT table_name AS tbl, column_name AS name FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name IN (${tables.map(() => '?').join(', ')}) ORDER BY ordinal_position`, tables);
+      for (const c of info) columns[c.tbl]?.push(c.name);
+      const softDeleted = tables.filter(t => this.tables[t]?.softDelete);
+      const compiled = compileJoin(table, node, rows.map(r => r._id), this._dialect, columns, softDeleted);
+      return compiled && { joined: compiled.joined, result: await this.query(compiled.sql, compiled.values) };
+    });
+    if (!join) return super.loadRelation(table, rows, node);
+    attachJoined(rows, join.joined, join.result, (t, row) => this._decodeRow(t, row));
+  }
+
+  async *stream<T = any>(table: string, where: Record<string, any> | null = null, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    const { whereClause, values } = await this._execute('stream', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      return this._buildWhereClause(where);
     });
+    const owned = !this._connection;
+    const connection = this._connection ?? await (await this._connectionPromise).getConnection();
+    let finished = false;
+    try {
+      const sql = `SELECT * FROM
+${table}
+ ${whereClause}`;
+      const rows = (connection.connection as any).query(sql, values).stream({ highWaterMark: batchSize });
+      for await (const row of rows) yield this._decodeRow(table, row) as T;
+      finished = true;
+    } finally {
+      // A result set abandoned halfway would leave unread rows on the connection
+      if (owned) finished ? connection.release() : connection.destroy();
+    }
   }
 
   async selectOne<T = any>(table: string, where: Record<string, any> | null = null): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
+  async count(table: string, where: Record<string, any> | null = null): Promise<number> {
+    return this._execute('count', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT COUNT(*) AS count FROM
+${table}
+ ${whereClause}`, values);
+      return Number(rows[0].count);
+    });
+  }
+
+  async exists(table: string, where: Record<string, any> | null = null): Promise<boolean> {
+    return this._execute('exists', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT 1 FROM
+${table}
+ ${whereClause} LIMIT 1`, values);
+      return rows.length > 0;
+    });
+  }
+
+  async distinct<T = any>(table: string, field: string, where: Record<string, any> | null = null): Promise<T[]> {
+    return this._execute('distinct', table, async () => {
+      await this.ensureTable(table, { ...whereColumns(where), ...pathColumns({ [field]: null }) });
+      const { sql, values } = compileDistinct(this._dialect.quote(table), field, where, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => this._decodeRow(table, r)[field]);
+    });
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute('aggregate', table, async () => {
+      const { groupBy, metrics } = parseAggregate(options);
+      await this.ensureTable(table, aggregateColumns(options));
+      const { sql, values } = compileAggregate(this._dialect.quote(table), options, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => {
+        const decoded = this._decodeRow(table, r);
+        for (const f of groupBy) r[f] = decoded[f];
+        return normalizeAggregateRow(r, metrics);
+      });
+    });
+  }
+
   async set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any> {
     const existing = await this.selectOne(table, where);
     return existing ? this.update(table, data, where) : this.insert(table, { ...where, ...data });
   }
 
   async bulkInsert(table: string, dataArray: Record<string, any>[]): Promise<number> {
+    this.validate(table, dataArray);
     if (!dataArray.length) return 0;
     return this._execute('bulkInsert', table, async () => {
       await this.ensureTable(table, dataArray[0]);
       const keys = Object.keys(dataArray[0]);
       const placeholders = dataArray.map(() => `(${keys.map(() => '?').join(',')})`).join(',');
-      const values = dataArray.flatMap(obj => keys.map(k => this._serializeValue(obj[k])));
+      const values = dataArray.map(obj => encodeRow(obj, this.schemas[table])).flatMap(obj => keys.map(k => this._serializeValue(obj[k])));
       const sql = `INSERT INTO
 ${table}
  (${keys.map(k => `
@@ -218,19 +344,13 @@ ${k}
 
   async increment(table: string, incs: Record<string, number>, where: Record<string, any>): Promise<number> {
     return this._execute('increment', table, async () => {
-      await this.ensureTable(table, where);
-      const set = Object.keys(incs).map(f => `
-${f}
- =
-${f}
- + ?`).join(', ');
-      const wKeys = Object.keys(where);
+      await this.ensureTable(table, { ...pathColumns(incs), ...whereColumns(where) });
+      const { set, values: setValues } = compileAssignments(incs, this._dialect, true);
+      const { whereClause, values } = this._buildWhereClause(where);
       const sql = `UPDATE
 ${table}
- SET ${set} WHERE ${wKeys.map(k => `
-${k}
- = ?`).join(" AND ")}`;
-      const result = await this.query(sql, [...Object.values(incs), ...Object.values(where).map(v => typeof v === 'object' ? JSON.stringify(v) : v)]);
+ SET ${set} ${whereClause}`;
+      const result = await this.query(sql, [...setValues, ...values]);
       return result.affectedRows;
     });
   }
@@ -241,7 +361,47 @@ ${k}
     return this.increment(table, incs, where);
   }
 
-  async close(): Promise<void> { if (this.pool) await this.pool.end(); }
+  /**
+   * MySQL can only index TEXT columns by prefix, so they are indexed (and kept unique) on their first 255 characters.
+   */
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute('createIndex', table, async () => {
+      await this.ensureTable(table, Object.fromEntries(index.fields.map(f => [f, null])));
+      const existing: any[] = await this.query(`SELECT 1 FROM information_schema.statistics WHERE table_schema = DATABASE() AND table_name = ? AND index_name = ?`, [table, index.name]);
+      if (!existing.length) {
+        const columns: any[] = await this.query(`SELECT column_name AS name, data_type AS type FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ?`, [table]);
+        const prefixed = new Set(columns.filter(c => /text|blob/i.test(c.type)).map(c => c.name));
+        const column = (name: string) => prefixed.has(name) ? `${this._dialect.quote(name)}(255)` : this._dialect.quote(name);
+        await this.query(createIndexSql(table, index, this._dialect.quote, column, false));
+      }
+      this.registerIndex(table, index);
+    });
+  }
+
+  /**
+   * Note that MySQL commits implicitly on DDL, so tables and columns created by
+   * auto-DDL inside the callback end the transaction early. Create them beforehand.
+   */
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let connection: PoolConnection | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        const pool = await this._connectionPromise;
+        connection = await pool.getConnection();
+        await connection.beginTransaction();
+        return { _connection: connection };
+      },
+      commit: async () => { await connection!.commit(); },
+      rollback: async () => { await connection!.rollback(); },
+      release: () => connection?.release(),
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.closeWatchers();
+    if (this.pool) await this.pool.end();
+  }
 
   private _getColumnType(v: any): string {
     if (v === null || v === undefined) return 'TEXT';
@@ -252,21 +412,32 @@ ${k}
     return 'TEXT';
   }
 
+  /**
+   * Turns ER_DUP_ENTRY ("Duplicate entry 'x' for key 'table.index'") into a `UniqueConstraintError`.
+   */
+  private _mapError(error: any): any {
+    const match = error?.code === 'ER_DUP_ENTRY' && /Duplicate entry '(.*)' for key '(.+)'/.exec(error.sqlMessage || error.message || '');
+    if (!match) return error;
+    const dot = match[2].lastIndexOf('.');
+    const name = match[2].slice(dot + 1);
+    // Older servers leave the table out of the key, so it is looked up from the registered indexes
+    const [table, list] = Object.entries(this.indexes).find(([t, l]) => (dot < 0 || t === match[2].slice(0, dot)) && l.some(i => i.name === name)) || [match[2].slice(0, Math.max(dot, 0)), []];
+    const index = list.find(i => i.name === name);
+    const fields = index ? index.fields : [name === 'PRIMARY' ? '_id' : name];
+    return new UniqueConstraintError(table, fields, fields.length === 1 ? [match[1]] : undefined);
+  }
+
+  private _decodeRow(table: string, row: any): any {
+    return decodeRow(row, this.schemas[table]);
+  }
+
   private _serializeValue(v: any): any {
     if (v instanceof Date) return v.toISOString().slice(0, 19).replace('T', ' ');
     return (typeof v === 'object' && v !== null) ? JSON.stringify(v) : v;
   }
 
-  private _buildWhereClause(where: Record<string, any> | null): { whereClause: string; values: any[] } {
-    if (!where) return { whereClause: '', values: [] };
-    const keys = Object.keys(where);
-    if (!keys.length) return { whereClause: '', values: [] };
-    return {
-      whereClause: 'WHERE ' + keys.map(k => `
-${k}
- = ?`).join(' AND '),
-      values: Object.values(where).map(v => this._serializeValue(v))
-    };
+  private _buildWhereClause(where: WhereClause | null): { whereClause: string; values: any[] } {
+    return compileWhere(where, this._dialect);
   }
 }
 
@@ -1,13 +1,70 @@
 import { IDatabase } from './IDatabase';
-import { Pool } from 'pg';
-import { PostgreSQLConfig } from './types';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { PostgreSQLConfig, WhereClause, SelectOptions, AggregateOptions, StreamOptions, IndexOptions, ChangeEvent } from './types';
+import { compileWhere, compileAssignments, compileSelectOptions, projectRow, whereColumns, optionColumns, compileDistinct, compileAggregate, aggregateColumns, parseAggregate, normalizeAggregateRow, batchSizeOf, pathColumns, assignPaths, hasFieldOperators, SqlDialect } from './query';
+import { createColumnsSql, missingColumnsSql, encodeRow, SchemaDialect } from './schema';
+import { normalizeIndex, createIndexSql } from './indexes';
+import { compileJoin, attachJoined, includeTables, IncludeNode } from './relations';
+import { UniqueConstraintError } from './errors';
+
+let cursorSeq = 0;
+const CHANGES_CHANNEL = 'zerohelper_changes';
+/** NOTIFY rejects payloads of 8000 bytes or more. */
+const MAX_NOTIFY_BYTES = 7999;
+
+/** What NOTIFY carries for a change too large to send whole; listeners re-read the row. */
+interface ChangeReference {
+  ref: true;
+  op: ChangeEvent['op'];
+  table: string;
+  id: any;
+  ts: number;
+}
 
 export class PostgreSQLDatabase extends IDatabase {
   private config: PostgreSQLConfig;
   private pool: Pool | null = null;
+  private _client: PoolClient | null = null;
+  private _listener: PoolClient | null = null;
+  /** Keeps notifications delivered in order while large ones are re-read. */
+  private _notified: Promise<void> = Promise.resolve();
   private _queue: Array<{ operation: () => Promise<any>; resolve: (val: any) => void; reject: (err: any) => void }> = [];
   private _connected: boolean = false;
   private _connectionPromise: Promise<Pool>;
+  private _dialect: SqlDialect = {
+    quote: (f) => `"${f}"`,
+    placeholder: (i) => `$${i}`,
+    serialize: (v) => this._serializeValue(v),
+    like: 'ILIKE',
+    // References may be stored as text while ids are integers, and PostgreSQL won't compare the two
+    keysEqual: (left, right) => `${left}::text = ${right}::text`,
+    nulls: true,
+    json: {
+      extract: (col, keys) => `(${col}::jsonb #>> ${this._pathLiteral(keys)})`,
+      numeric: (col, keys) => {
+        const path = this._pathLiteral(keys);
+        return `(CASE WHEN jsonb_typeof(${col}::jsonb #> ${path}) = 'number' THEN (${col}::jsonb #>> ${path})::numeric END)`;
+      },
+      document: (col) => `COALESCE(${col}::jsonb, '{}'::jsonb)`,
+      // jsonb_set only creates the last key, so missing parents are filled in one level at a time
+      assign: (doc, keys, value) => {
+        let expr = '_doc.d';
+        for (let i = 1; i < keys.length; i++) {
+          const parent = this._pathLiteral(keys.slice(0, i));
+          expr = `jsonb_set(${expr}, ${parent}, CASE WHEN jsonb_typeof(_doc.d #> ${parent}) = 'object' THEN _doc.d #> ${parent} ELSE '{}'::jsonb END)`;
+        }
+        return `(SELECT jsonb_set(${expr}, ${this._pathLiteral(keys)}, ${value}) FROM (SELECT ${doc} AS d) AS _doc)`;
+      },
+      parse: (p) => `${p}::jsonb`,
+      number: (expr) => `to_jsonb(${expr})`,
+    },
+  };
+
+  private _schemaDialect: SchemaDialect = {
+    types: { string: 'TEXT', text: 'TEXT', integer: 'INTEGER', number: 'DOUBLE PRECISION', boolean: 'BOOLEAN', date: 'TIMESTAMP', json: 'JSONB' },
+    quote: (name) => `"${name}"`,
+    untyped: (name, sample) => `"${name}" ${this._getColumnType(sample)}`,
+  };
 
   constructor(config: PostgreSQLConfig) {
     super();
@@ -45,71 +102,110 @@ export class PostgreSQLDatabase extends IDatabase {
   }
 
   async query(sql: string, params: any[] = []): Promise<any> {
-    const pool = await this._connectionPromise;
-    const res = await pool.query(sql, params);
+    const res = await this._run(sql, params);
     return res.rows;
   }
 
+  /**
+   * Sends a statement over the transaction client when inside db.transaction, otherwise through the pool.
+   */
+  private async _run(sql: string, params: any[] = []): Promise<QueryResult> {
+    try {
+      if (this._client) return await this._client.query(sql, params);
+      const pool = await this._connectionPromise;
+      return await pool.query(sql, params);
+    } catch (error) {
+      throw this._mapError(error);
+    }
+  }
+
+  /**
+   * Turns unique violations (23505, "Key (email)=(x) already exists.") into a `UniqueConstraintError`.
+   */
+  private _mapError(error: any): any {
+    if (error?.code !== '23505') return error;
+    const match = /Key \((.+?)\)=\((.*)\)/.exec(error.detail || '');
+    const fields = match ? match[1].split(', ').map((f: string) => f.replace(/^"|"$/g, '')) : [error.constraint];
+    return new UniqueConstraintError(error.table || '', fields, match && fields.length === 1 ? [match[2]] : undefined);
+  }
+
   async ensureTable(table: string, data: any = {}): Promise<void> {
     const tables = await this.query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' AND table_name = $1`, [table]);
     if (tables.length === 0) {
-      const defs = Object.keys(data).map(k => `"${k}" ${this._getColumnType(data[k])}`);
+      const defs = createColumnsSql(this.schemas[table], data, this._schemaDialect);
       await this.query(`CREATE TABLE "${table}" ("_id" SERIAL PRIMARY KEY ${defs.length ? ', ' + defs.join(",") : ''})`);
     } else {
       const existing = await this.query(`SELECT column_name FROM information_schema.columns WHERE table_name = $1 AND table_schema = 'public'`, [table]);
       const names = existing.map((c: any) => c.column_name);
-      for (const key of Object.keys(data)) {
-        if (key !== '_id' && !names.includes(key)) {
-          await this.query(`ALTER TABLE "${table}" ADD COLUMN "${key}" ${this._getColumnType(data[key])}`);
-        }
+      for (const def of missingColumnsSql(this.schemas[table], data, names, this._schemaDialect)) {
+        await this.query(`ALTER TABLE "${table}" ADD COLUMN ${def}`);
       }
     }
   }
 
   async insert(table: string, data: any): Promise<any> {
-    await this.runHooks('beforeInsert', table, data);
+    this.validate(table, data);
     return this._execute('insert', table, async () => {
       await this.ensureTable(table, data);
       const keys = Object.keys(data);
       const sql = `INSERT INTO "${table}" (${keys.map(k => `"${k}"`).join(",")}) VALUES (${keys.map((_, i) => `$${i + 1}`).join(",")}) RETURNING "_id"`;
-      const res = await this.query(sql, Object.values(data).map(v => this._serializeValue(v)));
-      const finalData = { _id: res[0]._id, ...data };
-      await this.runHooks('afterInsert', table, finalData);
+      const res = await this.query(sql, Object.values(encodeRow(data, this.schemas[table])).map(v => this._serializeValue(v)));
       return res[0]._id;
     });
   }
 
   async update(table: string, data: any, where: any): Promise<number> {
-    await this.runHooks('beforeUpdate', table, { data, where });
+    this.validate(table, data, true);
+    if (hasFieldOperators(data)) return this._updateInPlace(table, data, where);
     return this._execute('update', table, async () => {
-      await this.ensureTable(table, { ...data, ...where });
-      const dataKeys = Object.keys(data);
-      const set = dataKeys.map((k, i) => `"${k}" = $${i + 1}`).join(",");
-      const { whereClause, values: whereValues } = this._buildWhereClause(where, dataKeys.length);
+      await this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) });
+      const { set, values } = compileAssignments(encodeRow(data, this.schemas[table]), this._dialect);
+      const { whereClause, values: whereValues } = this._buildWhereClause(where, values.length);
       const sql = `UPDATE "${table}" SET ${set} ${whereClause}`;
-      const pool = await this._connectionPromise;
-      const res = await pool.query(sql, [...Object.values(data).map(v => this._serializeValue(v)), ...whereValues]);
+      const res = await this._run(sql, [...values, ...whereValues]);
       return res.rowCount ?? 0;
     });
   }
 
+  /**
+   * Runs updates that depend on the current value of a field (`push`, `pull`, ...): the rows are locked
+   * with `SELECT ... FOR UPDATE`, changed in memory and written back inside one transaction.
+   */
+  private async _updateInPlace(table: string, data: any, where: any): Promise<number> {
+    await this._execute('update', table, () => this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) }));
+    return this.transaction(tx => (tx as unknown as PostgreSQLDatabase)._rewriteRows(table, data, where));
+  }
+
+  private async _rewriteRows(table: string, data: any, where: any): Promise<number> {
+    const { whereClause, values } = this._buildWhereClause(where);
+    const rows = await this.query(`SELECT * FROM "${table}" ${whereClause} FOR UPDATE`, values);
+    const columns = Object.keys(pathColumns(data));
+    for (const row of rows) {
+      const updated = assignPaths({ ...row }, data);
+      const changes = Object.fromEntries(columns.map(c => [c, updated[c] ?? null]));
+      const { set, values: setValues } = compileAssignments(encodeRow(changes, this.schemas[table]), this._dialect);
+      await this._run(`UPDATE "${table}" SET ${set} WHERE "_id" = $${setValues.length + 1}`, [...setValues, row._id]);
+    }
+    return rows.length;
+  }
+
   async delete(table: string, where: any): Promise<number> {
-    await this.runHooks('beforeDelete', table, where);
     return this._execute('delete', table, async () => {
-      await this.ensureTable(table, where);
+      await this.ensureTable(table, whereColumns(where));
       const { whereClause, values } = this._buildWhereClause(where);
       const sql = `DELETE FROM "${table}" ${whereClause}`;
-      const pool = await this._connectionPromise;
-      const res = await pool.query(sql, values);
+      const res = await this._run(sql, values);
       return res.rowCount ?? 0;
     });
   }
 
-  async select<T = any>(table: string, where: any = null): Promise<T[]> {
+  async select<T = any>(table: string, where: any = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
     return this._execute('select', table, async () => {
-      await this.ensureTable(table, where || {});
+      await this.ensureTable(table, { ...whereColumns(where), ...optionColumns(options) });
       const { whereClause, values } = this._buildWhereClause(where);
-      const rows = await this.query(`SELECT * FROM "${table}" ${whereClause}`, values);
+      const { columns, suffix } = compileSelectOptions(options, this._dialect);
+      const rows = await this.query(`SELECT ${columns} FROM "${table}" ${whereClause}${suffix}`, values);
       return rows.map((r: any) => {
         const nr: any = {};
         for (const k in r) {
@@ -119,22 +215,111 @@ export class PostgreSQLDatabase extends IDatabase {
           // For now, let's trust the driver + schema.
           nr[k] = r[k];
         }
-        return nr as T;
+        return projectRow<T>(nr, options.fields);
       });
     });
   }
 
+  /**
+   * Reads through a server-side cursor. Cursors only live inside a transaction, so one is opened
+   * on a dedicated client (or the active db.transaction client is reused).
+   */
+  /**
+   * Loads a relation and its nested relations with LEFT JOINs from the selected rows, in one query.
+   * Relations keyed on dot-paths or on columns that don't exist yet are loaded with `$in` instead.
+   */
+  protected override async loadRelation(table: string, rows: any[], node: IncludeNode): Promise<void> {
+    if (!rows.length) return;
+    const tables = Array.from(new Set([table, ...includeTables(node)]));
+    const join = await this._execute('select', table, async () => {
+      const columns: Record<string, string[]> = Object.fromEntries(tables.map(t => [t, []]));
+      const info: any[] = await this.query(`SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = ANY($1) ORDER BY ordinal_position`, [tables]);
+      for (const c of info) columns[c.table_name]?.push(c.column_name);
+      const softDeleted = tables.filter(t => this.tables[t]?.softDelete);
+      const compiled = compileJoin(table, node, rows.map(r => r._id), this._dialect, columns, softDeleted);
+      return compiled && { joined: compiled.joined, result: await this.query(compiled.sql, compiled.values) };
+    });
+    if (!join) return super.loadRelation(table, rows, node);
+    attachJoined(rows, join.joined, join.result, (_, row) => row);
+  }
+
+  async *stream<T = any>(table: string, where: any = null, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    const cursor = `zh_cursor_${++cursorSeq}`;
+    const { whereClause, values } = await this._execute('stream', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      return this._buildWhereClause(where);
+    });
+    const owned = !this._client;
+    const client = this._client ?? await (await this._connectionPromise).connect();
+    try {
+      if (owned) await client.query('BEGIN');
+      await client.query(`DECLARE "${cursor}" NO SCROLL CURSOR FOR SELECT * FROM "${table}" ${whereClause}`, values);
+      while (true) {
+        const { rows } = await client.query(`FETCH ${batchSize} FROM "${cursor}"`);
+        for (const row of rows) yield row as T;
+        if (rows.length < batchSize) return;
+      }
+    } finally {
+      // Ending the read-only transaction also closes the cursor, even when the consumer stopped early
+      if (owned) {
+        await client.query('ROLLBACK').catch(() => {});
+        (client as PoolClient).release();
+      } else {
+        await client.query(`CLOSE "${cursor}"`).catch(() => {});
+      }
+    }
+  }
+
   async selectOne<T = any>(table: string, where: any = null): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
+  async count(table: string, where: any = null): Promise<number> {
+    return this._execute('count', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT COUNT(*) AS count FROM "${table}" ${whereClause}`, values);
+      return Number(rows[0].count);
+    });
+  }
+
+  async exists(table: string, where: any = null): Promise<boolean> {
+    return this._execute('exists', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT 1 FROM "${table}" ${whereClause} LIMIT 1`, values);
+      return rows.length > 0;
+    });
+  }
+
+  async distinct<T = any>(table: string, field: string, where: any = null): Promise<T[]> {
+    return this._execute('distinct', table, async () => {
+      await this.ensureTable(table, { ...whereColumns(where), ...pathColumns({ [field]: null }) });
+      const { sql, values } = compileDistinct(`"${table}"`, field, where, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => r[field]);
+    });
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute('aggregate', table, async () => {
+      const { metrics } = parseAggregate(options);
+      await this.ensureTable(table, aggregateColumns(options));
+      const { sql, values } = compileAggregate(`"${table}"`, options, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => normalizeAggregateRow(r, metrics));
+    });
+  }
+
   async set(table: string, data: any, where: any): Promise<any> {
     const ex = await this.selectOne(table, where);
     return ex ? this.update(table, data, where) : this.insert(table, { ...where, ...data });
   }
 
   async bulkInsert(table: string, dataArray: any[]): Promise<number> {
+    this.validate(table, dataArray);
     if (!dataArray.length) return 0;
     for (const d of dataArray) await this.insert(table, d);
     return dataArray.length;
@@ -142,13 +327,11 @@ export class PostgreSQLDatabase extends IDatabase {
 
   async increment(table: string, incs: Record<string, number>, where: any): Promise<number> {
     return this._execute('increment', table, async () => {
-      await this.ensureTable(table, where);
-      const incKeys = Object.keys(incs);
-      const set = incKeys.map((f, i) => `"${f}" = "${f}" + $${i + 1}`).join(',');
-      const { whereClause, values } = this._buildWhereClause(where, incKeys.length);
+      await this.ensureTable(table, { ...pathColumns(incs), ...whereColumns(where) });
+      const { set, values: setValues } = compileAssignments(incs, this._dialect, true);
+      const { whereClause, values } = this._buildWhereClause(where, setValues.length);
       const sql = `UPDATE "${table}" SET ${set} ${whereClause}`;
-      const pool = await this._connectionPromise;
-      const res = await pool.query(sql, [...Object.values(incs), ...values]);
+      const res = await this._run(sql, [...setValues, ...values]);
       return res.rowCount ?? 0;
     });
   }
@@ -159,7 +342,93 @@ export class PostgreSQLDatabase extends IDatabase {
     return this.increment(table, incs, where);
   }
 
-  async close(): Promise<void> { if (this.pool) await this.pool.end(); }
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute('createIndex', table, async () => {
+      await this.ensureTable(table, Object.fromEntries(index.fields.map(f => [f, null])));
+      await this.query(createIndexSql(table, index, this._dialect.quote));
+      this.registerIndex(table, index);
+    });
+  }
+
+  protected override capturesChanges(table: string): boolean {
+    return super.capturesChanges(table) || !!this.config.publishChanges;
+  }
+
+  /**
+   * Changes go out with NOTIFY, so every instance LISTENing on the database receives them, this one included.
+   * Events too large for a NOTIFY payload are sent as a reference to the row instead.
+   */
+  protected override async sendChange(event: ChangeEvent): Promise<void> {
+    const pool = await this._connectionPromise;
+    let payload = JSON.stringify(event);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      const ref: ChangeReference = { ref: true, op: event.op, table: event.table, id: (event.after ?? event.before)?._id, ts: event.ts };
+      payload = JSON.stringify(ref);
+    }
+    await pool.query('SELECT pg_notify($1, $2)', [CHANGES_CHANNEL, payload]);
+  }
+
+  /**
+   * Rebuilds an event sent as a reference: `after` is the row as it is now (null once deleted, or when it
+   * can't be read back), and the previous values are not available, so `before` is null.
+   */
+  private async _resolveChange(message: ChangeEvent | ChangeReference): Promise<ChangeEvent> {
+    if (!('ref' in message)) return message;
+    const { op, table, id, ts } = message;
+    let after = null;
+    if (op !== 'delete' && id !== undefined) {
+      try {
+        const pool = await this._connectionPromise;
+        after = (await pool.query(`SELECT * FROM "${table}" WHERE "_id" = $1`, [id])).rows[0] ?? null;
+      } catch {
+        // The change did happen, so it is still delivered, just without the row
+      }
+    }
+    return { op, table, before: null, after, ts };
+  }
+
+  protected override async startWatching(): Promise<void> {
+    const client = await (await this._connectionPromise).connect();
+    client.on('notification', (message) => {
+      if (message.channel !== CHANGES_CHANNEL || !message.payload) return;
+      const change = JSON.parse(message.payload);
+      const delivered = this._notified
+        .then(() => this._resolveChange(change))
+        .then(event => this.deliverChange(event));
+      this._notified = delivered.catch(error => { for (const watcher of this.watchers) watcher.fail(error); });
+    });
+    await client.query(`LISTEN ${CHANGES_CHANNEL}`);
+    this._listener = client;
+  }
+
+  protected override async stopWatching(): Promise<void> {
+    const client = this._listener;
+    this._listener = null;
+    if (!client) return;
+    await client.query(`UNLISTEN ${CHANGES_CHANNEL}`).catch(() => {});
+    client.release();
+  }
+
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let client: PoolClient | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        const pool = await this._connectionPromise;
+        client = await pool.connect();
+        await client.query('BEGIN');
+        return { _client: client };
+      },
+      commit: async () => { await client!.query('COMMIT'); },
+      rollback: async () => { await client!.query('ROLLBACK'); },
+      release: () => client?.release(),
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.closeWatchers();
+    if (this.pool) await this.pool.end();
+  }
 
   private _getColumnType(v: any): string {
     if (v === null || v === undefined) return 'TEXT';
@@ -175,15 +444,14 @@ export class PostgreSQLDatabase extends IDatabase {
     return (typeof v === 'object' && v !== null) ? JSON.stringify(v) : v;
   }
 
-  private _buildWhereClause(where: Record<string, any> | null, offset: number = 0): { whereClause: string; values: any[] } {
-    if (!where) return { whereClause: '', values: [] };
-    const safeWhere = where as Record<string, any>;
-    const keys = Object.keys(safeWhere);
-    if (!keys.length) return { whereClause: '', values: [] };
-    return {
-      whereClause: 'WHERE ' + keys.map((k, i) => `"${k}" = $${i + 1 + offset}`).join(' AND '),
-      values: keys.map(k => this._serializeValue(safeWhere[k]))
-    };
+  /** Text array literal for the `#>` / `#>>` operators and `jsonb_set`. */
+  private _pathLiteral(keys: string[]): string {
+    const array = `{${keys.map(k => `"${k.replace(/["\\]/g, '\\$&')}"`).join(',')}}`;
+    return `'${array.replace(/'/g, "''")}'`;
+  }
+
+  private _buildWhereClause(where: WhereClause | null, offset: number = 0): { whereClause: string; values: any[] } {
+    return compileWhere(where, this._dialect, offset);
   }
 }
 
@@ -0,0 +1,698 @@
+// database/query.ts
+import { WhereClause, SelectOptions, AggregateOptions, StreamOptions, PaginateOptions, SortDirection, Page } from './types';
+
+const OPERATORS = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$like', '$exists'];
+export const LOGICAL = ['$and', '$or', '$not'];
+
+export interface SqlDialect {
+  quote(field: string): string;
+  placeholder(index: number): string;
+  serialize(value: any): any;
+  numeric?(column: string): string;
+  like?: string;
+  nulls?: boolean;
+  noLimit?: string;
+  json?: JsonDialect;
+  /** Condition joining two key columns that may differ in type; plain `=` by default. */
+  keysEqual?(left: string, right: string): string;
+}
+
+/**
+ * SQL building blocks for dot-path fields stored inside JSON columns.
+ */
+export interface JsonDialect {
+  /** Scalar value at the key path, NULL when missing. */
+  extract(column: string, keys: string[]): string;
+  /** Numeric value at the key path; defaults to the dialect's `numeric` over `extract`. */
+  numeric?(column: string, keys: string[]): string;
+  /** The column as a JSON document, `{}` when empty. */
+  document(column: string): string;
+  /** `doc` with the JSON `value` stored at the key path, creating missing parent objects. */
+  assign(doc: string, keys: string[], value: string): string;
+  /** JSON value of a parameter bound as JSON text. */
+  parse(placeholder: string): string;
+  /** JSON value of a numeric SQL expression. */
+  number(expr: string): string;
+}
+
+/**
+ * Returns true when the value is an operator object such as `{ $gt: 18 }`.
+ */
+export function isOperatorObject(value: any): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => k.startsWith('$'));
+}
+
+function assertOperator(op: string): void {
+  if (!OPERATORS.includes(op)) throw new Error(`Desteklenmeyen sorgu operatörü: ${op}`);
+}
+
+/**
+ * Converts a SQL LIKE pattern (`%`, `_`) into a case-insensitive RegExp.
+ */
+export function likeToRegExp(pattern: string): RegExp {
+  const source = String(pattern)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Splits a dot-path such as `profile.city` into its column and the nested keys.
+ */
+export function splitPath(field: string): { column: string; keys: string[] } {
+  const [column, ...keys] = field.split('.');
+  return { column, keys };
+}
+
+/**
+ * Builds a quoted JSON path (`$."a"."b"`) for SQLite and MySQL as an SQL string literal.
+ */
+export function jsonPathLiteral(keys: string[]): string {
+  const path = '$' + keys.map(k => `."${k.replace(/["\\]/g, '\\$&')}"`).join('');
+  return `'${path.replace(/'/g, "''")}'`;
+}
+
+/**
+ * JSON merge patch (as an SQL string literal) that creates the missing parent objects of a key path,
+ * or null when the path has no parents.
+ */
+export function parentsPatchLiteral(keys: string[]): string | null {
+  if (keys.length < 2) return null;
+  const patch = keys.slice(0, -1).reduceRight<Record<string, any>>((child, key) => ({ [key]: child }), {});
+  return `'${JSON.stringify(patch).replace(/'/g, "''")}'`;
+}
+
+// Objects stored as JSON text (SQLite, ZPack) are parsed while walking a path
+function asObject(value: any): any {
+  if (typeof value === 'string' && /^\s*[{[]/.test(value)) {
+    try { return JSON.parse(value); } catch { }
+  }
+  return value;
+}
+
+/**
+ * Reads a field of a row; dot-paths walk into nested objects.
+ */
+export function getPath(row: any, field: string): any {
+  if (!field.includes('.')) return row ? row[field] : undefined;
+  let node = row;
+  for (const key of field.split('.')) {
+    node = asObject(node);
+    if (node === null || typeof node !== 'object') return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+/**
+ * Writes a field of a row in place. Objects along a dot-path are copied rather than mutated,
+ * and missing parents are created.
+ */
+export function setPath(row: any, field: string, value: any): void {
+  const keys = field.split('.');
+  let node = row;
+  for (const key of keys.slice(0, -1)) {
+    const child = asObject(node[key]);
+    node = node[key] = child === null || typeof child !== 'object' ? {} : Array.isArray(child) ? [...child] : { ...child };
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Key of an update that holds amounts to add instead of values to set, so one write can do both
+ * (e.g. change fields and bump `_version`).
+ */
+export const INCREMENT = '$inc';
+
+/**
+ * Update keys that change a field relative to its current value, behind `push`, `pull`, `addToSet`,
+ * `merge` and `unset`. Each maps paths to the argument of the operation.
+ */
+export const FIELD_OPERATORS = new Map<string, (row: any, field: string, value: any) => void>([
+  ['$push', (row, field, value) => setPath(row, field, [...arrayAt(row, field), value])],
+  ['$pull', (row, field, value) => setPath(row, field, arrayAt(row, field).filter(item => !sameValue(item, value)))],
+  ['$addToSet', (row, field, value) => {
+    const items = arrayAt(row, field);
+    if (!items.some(item => sameValue(item, value))) setPath(row, field, [...items, value]);
+  }],
+  ['$merge', (row, field, value) => {
+    const current = asObject(getPath(row, field));
+    setPath(row, field, { ...(current !== null && typeof current === 'object' && !Array.isArray(current) ? current : {}), ...value });
+  }],
+  ['$unset', (row, field) => unsetPath(row, field)],
+]);
+
+/**
+ * True when the update uses any of the `FIELD_OPERATORS`.
+ */
+export function hasFieldOperators(data: Record<string, any>): boolean {
+  return Object.keys(data).some(key => FIELD_OPERATORS.has(key));
+}
+
+function arrayAt(row: any, field: string): any[] {
+  const current = asObject(getPath(row, field));
+  if (current === null || current === undefined) return [];
+  if (!Array.isArray(current)) throw new Error(`'${field}' alanı bir dizi değil.`);
+  return current;
+}
+
+function sameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Removes a field of a row in place, copying the objects along a dot-path like `setPath`.
+ */
+export function unsetPath(row: any, field: string): void {
+  const keys = field.split('.');
+  let node = row;
+  for (const key of keys.slice(0, -1)) {
+    const child = asObject(node[key]);
+    if (child === null || typeof child !== 'object') return;
+    node = node[key] = Array.isArray(child) ? [...child] : { ...child };
+  }
+  delete node[keys[keys.length - 1]];
+}
+
+/**
+ * Applies an update to a row in place and returns it.
+ */
+export function assignPaths<T extends Record<string, any>>(row: T, data: Record<string, any>): T {
+  for (const [field, value] of Object.entries(data)) {
+    const operator = FIELD_OPERATORS.get(field);
+    if (field === INCREMENT) incrementPaths(row, value);
+    else if (operator) for (const [path, arg] of Object.entries(value)) operator(row, path, arg);
+    else setPath(row, field, value);
+  }
+  return row;
+}
+
+/**
+ * Adds each amount to the (possibly nested) numeric field, treating missing values as 0.
+ */
+export function incrementPaths<T extends Record<string, any>>(row: T, incs: Record<string, number>): T {
+  for (const [field, amount] of Object.entries(incs)) setPath(row, field, (Number(getPath(row, field)) || 0) + amount);
+  return row;
+}
+
+/**
+ * Maps the keys of an update to the columns they touch, for passing to `ensureTable`.
+ */
+export function pathColumns(data: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [field, value] of Object.entries(data || {})) {
+    if (field === INCREMENT) Object.assign(out, pathColumns(value));
+    // Operators change stored JSON, so their columns are created as JSON/text
+    else if (FIELD_OPERATORS.has(field)) { for (const path of Object.keys(value)) { const { column } = splitPath(path); if (!(column in out)) out[column] = {}; } }
+    else if (field.includes('.')) { const { column } = splitPath(field); if (!(column in out)) out[column] = {}; }
+    else out[field] = value;
+  }
+  return out;
+}
+
+interface ColumnRef {
+  col: string;
+  numeric?: string;
+}
+
+function columnRef(field: string, dialect: SqlDialect): ColumnRef {
+  if (!field.includes('.')) return { col: dialect.quote(field), numeric: dialect.numeric?.(dialect.quote(field)) };
+  if (!dialect.json) throw new Error(`Bu adaptör iç içe alan yollarını desteklemiyor: ${field}`);
+  const { column, keys } = splitPath(field);
+  const col = dialect.json.extract(dialect.quote(column), keys);
+  const numeric = dialect.json.numeric ? dialect.json.numeric(dialect.quote(column), keys) : dialect.numeric?.(col);
+  return { col, numeric };
+}
+
+function isEqual(actual: any, expected: any): boolean {
+  if (expected === null || expected === undefined) return actual === null || actual === undefined;
+  if (expected instanceof Date) return actual !== null && actual !== undefined && new Date(actual).getTime() === expected.getTime();
+  return String(actual) === String(expected);
+}
+
+function compare(actual: any, expected: any): number | null {
+  if (actual === null || actual === undefined) return null;
+  if (expected instanceof Date) {
+    const t = new Date(actual).getTime();
+    return isNaN(t) ? null : t - expected.getTime();
+  }
+  if (typeof expected === 'number') {
+    const n = Number(actual);
+    return actual === '' || isNaN(n) ? null : n - expected;
+  }
+  const a = String(actual), b = String(expected);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matchesOperator(actual: any, op: string, expected: any): boolean {
+  assertOperator(op);
+  switch (op) {
+    case '$eq': return isEqual(actual, expected);
+    case '$ne': return !isEqual(actual, expected);
+    case '$in': return (expected as any[]).some(v => isEqual(actual, v));
+    case '$nin': return !(expected as any[]).some(v => isEqual(actual, v));
+    case '$exists': return (actual !== null && actual !== undefined) === !!expected;
+    case '$like': return actual !== null && actual !== undefined && likeToRegExp(expected).test(String(actual));
+  }
+  const diff = compare(actual, expected);
+  if (diff === null) return false;
+  if (op === '$gt') return diff > 0;
+  if (op === '$gte') return diff >= 0;
+  if (op === '$lt') return diff < 0;
+  return diff <= 0;
+}
+
+function assertGroup(op: string, value: any): void {
+  if (op === '$not' ? (!value || typeof value !== 'object' || Array.isArray(value)) : !Array.isArray(value)) {
+    throw new Error(`${op} operatörü ${op === '$not' ? 'bir nesne' : 'bir dizi'} bekler.`);
+  }
+}
+
+/**
+ * In-process predicate evaluator shared by the file and Redis adapters.
+ * Supports field operators and nested `$and` / `$or` / `$not` groups.
+ */
+export function matchesWhere(row: any, where: WhereClause | null | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([field, cond]) => {
+    if (LOGICAL.includes(field)) {
+      assertGroup(field, cond);
+      if (field === '$and') return (cond as WhereClause[]).every(w => matchesWhere(row, w));
+      if (field === '$or') return (cond as WhereClause[]).some(w => matchesWhere(row, w));
+      return !matchesWhere(row, cond);
+    }
+    const actual = getPath(row, field);
+    if (isOperatorObject(cond)) return Object.entries(cond).every(([op, v]) => matchesOperator(actual, op, v));
+    return isEqual(actual, cond);
+  });
+}
+
+/**
+ * Returns the column names referenced by a where clause with a sample value for each,
+ * suitable for passing to `ensureTable`.
+ */
+export function whereColumns(where: WhereClause | null | undefined): Record<string, any> {
+  const out: Record<string, any> = {};
+  if (!where) return out;
+  for (const [field, cond] of Object.entries(where)) {
+    if (LOGICAL.includes(field)) {
+      for (const group of Array.isArray(cond) ? cond : [cond]) Object.assign(out, whereColumns(group));
+      continue;
+    }
+    if (field.includes('.')) { const { column } = splitPath(field); if (!(column in out)) out[column] = {}; continue; }
+    if (!isOperatorObject(cond)) { out[field] = cond; continue; }
+    const sample = [cond.$eq, cond.$gt, cond.$gte, cond.$lt, cond.$lte, ...(cond.$in || [])].find(v => v !== undefined && v !== null);
+    out[field] = sample === undefined ? null : sample;
+  }
+  return out;
+}
+
+/**
+ * Compiles a where clause into a parameterized, parenthesized SQL fragment for the given dialect.
+ */
+export function compileWhere(where: WhereClause | null | undefined, dialect: SqlDialect, offset: number = 0): { whereClause: string; values: any[] } {
+  if (!where || !Object.keys(where).length) return { whereClause: '', values: [] };
+  const values: any[] = [];
+  const param = (v: any) => { values.push(dialect.serialize(v)); return dialect.placeholder(offset + values.length); };
+  const numeric = (ref: ColumnRef, v: any) => typeof v === 'number' && ref.numeric ? ref.numeric : ref.col;
+
+  const compileOperator = (ref: ColumnRef, op: string, v: any): string => {
+    assertOperator(op);
+    const col = ref.col;
+    switch (op) {
+      case '$eq': return v === null || v === undefined ? `${col} IS NULL` : `${col} = ${param(v)}`;
+      case '$ne': return v === null || v === undefined ? `${col} IS NOT NULL` : `(${col} <> ${param(v)} OR ${col} IS NULL)`;
+      case '$gt': return `${numeric(ref, v)} > ${param(v)}`;
+      case '$gte': return `${numeric(ref, v)} >= ${param(v)}`;
+      case '$lt': return `${numeric(ref, v)} < ${param(v)}`;
+      case '$lte': return `${numeric(ref, v)} <= ${param(v)}`;
+      case '$in': return v.length ? `${col} IN (${v.map((x: any) => param(x)).join(', ')})` : '1 = 0';
+      case '$nin': return v.length ? `(${col} NOT IN (${v.map((x: any) => param(x)).join(', ')}) OR ${col} IS NULL)` : '1 = 1';
+      case '$like': return `${col} ${dialect.like || 'LIKE'} ${param(v)}`;
+      default: return v ? `${col} IS NOT NULL` : `${col} IS NULL`;
+    }
+  };
+
+  const compileGroup = (group: WhereClause): string => {
+    const parts = Object.entries(group).map(([field, cond]) => {
+      if (LOGICAL.includes(field)) {
+        assertGroup(field, cond);
+        // COALESCE keeps NOT null-safe so SQL matches the in-process evaluator
+        if (field === '$not') return `NOT COALESCE((${compileGroup(cond) || '1 = 1'}), 1 = 0)`;
+        const joiner = field === '$and' ? ' AND ' : ' OR ';
+        const subs = (cond as WhereClause[]).map(w => compileGroup(w) || '1 = 1');
+        if (!subs.length) return field === '$and' ? '1 = 1' : '1 = 0';
+        return `(${subs.map(x => `(${x})`).join(joiner)})`;
+      }
+      const ref = columnRef(field, dialect);
+      if (!isOperatorObject(cond)) return compileOperator(ref, '$eq', cond);
+      return Object.entries(cond).map(([op, v]) => compileOperator(ref, op, v)).join(' AND ');
+    });
+    return parts.join(' AND ');
+  };
+
+  return { whereClause: 'WHERE ' + compileGroup(where), values };
+}
+
+/**
+ * Compiles the `SET` list of an update, or of an increment when `increment` is true. Dot-path keys
+ * rewrite only the nested value inside their JSON column; parameters are numbered after `offset`.
+ */
+export function compileAssignments(data: Record<string, any>, dialect: SqlDialect, increment: boolean = false, offset: number = 0): { set: string; values: any[] } {
+  const values: any[] = [];
+  const param = (v: any) => { values.push(v); return dialect.placeholder(offset + values.length); };
+  // Group dot-paths by column so each column is assigned once and placeholders stay in order
+  const columns = new Map<string, [string[], any, boolean][]>();
+  const add = (field: string, value: any, inc: boolean) => {
+    const { column, keys } = splitPath(field);
+    if (!columns.has(column)) columns.set(column, []);
+    columns.get(column)!.push([keys, value, inc]);
+  };
+  for (const [field, value] of Object.entries(data)) {
+    if (field === INCREMENT) for (const [path, amount] of Object.entries(value as Record<string, number>)) add(path, amount, true);
+    else add(field, value, increment);
+  }
+
+  const parts = Array.from(columns, ([column, entries]) => {
+    const col = dialect.quote(column);
+    if (entries.length === 1 && !entries[0][0].length) {
+      const [, value, inc] = entries[0];
+      if (!inc) return `${col} = ${param(dialect.serialize(value))}`;
+      return `${col} = COALESCE(${dialect.numeric ? dialect.numeric(col) : col}, 0) + ${param(value)}`;
+    }
+    if (entries.some(([keys]) => !keys.length)) {
+      throw new Error(`'${column}' alanı aynı işlemde hem bütün olarak hem de iç içe yol ile güncellenemez.`);
+    }
+    const json = dialect.json;
+    if (!json) throw new Error(`Bu adaptör iç içe alan yollarını desteklemiyor: ${column}.${entries[0][0].join('.')}`);
+    let doc = json.document(col);
+    for (const [keys, value, inc] of entries) {
+      if (inc) {
+        const ref = columnRef([column, ...keys].join('.'), dialect);
+        doc = json.assign(doc, keys, json.number(`COALESCE(${ref.numeric ?? ref.col}, 0) + ${param(value)}`));
+      } else {
+        doc = json.assign(doc, keys, json.parse(param(JSON.stringify(value === undefined ? null : value))));
+      }
+    }
+    return `${col} = ${doc}`;
+  });
+  return { set: parts.join(', '), values };
+}
+
+function assertCount(name: string, value: number | undefined): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+    throw new Error(`'${name}' negatif olmayan bir tam sayı olmalıdır.`);
+  }
+}
+
+/**
+ * Validates `options.batchSize` for `stream()` and applies the default.
+ */
+export function batchSizeOf(options: StreamOptions = {}): number {
+  const size = options.batchSize ?? 500;
+  if (!Number.isInteger(size) || size < 1) throw new Error(`'batchSize' pozitif bir tam sayı olmalıdır.`);
+  return size;
+}
+
+/**
+ * Returns the columns referenced by select options (`fields`, `orderBy`) for `ensureTable`.
+ */
+export function optionColumns(options: SelectOptions = {}): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const f of [...(options.fields || []), ...Object.keys(options.orderBy || {})]) Object.assign(out, pathColumns({ [f]: null }));
+  return out;
+}
+
+/**
+ * Compiles select options into a column list and an ORDER BY / LIMIT / OFFSET suffix.
+ * Dot-path `fields` select their root column; `projectRow` trims it to the nested values afterwards.
+ */
+export function compileSelectOptions(options: SelectOptions = {}, dialect: SqlDialect): { columns: string; suffix: string } {
+  assertCount('limit', options.limit);
+  assertCount('offset', options.offset);
+  const roots = new Set((options.fields || []).map(f => splitPath(f).column));
+  const columns = roots.size ? [...roots].map(c => dialect.quote(c)).join(', ') : '*';
+  const order = Object.entries(options.orderBy || {}).map(([field, dir]) => {
+    const { col, numeric } = columnRef(field, dialect);
+    const direction = String(dir).toLowerCase() === 'desc' ? 'DESC' : 'ASC';
+    // Null ordering follows SQLite/MySQL/Mongo: NULLs first ascending, last descending
+    const nulls = dialect.nulls ? (direction === 'ASC' ? ' NULLS FIRST' : ' NULLS LAST') : '';
+    const keys = numeric ? [numeric, col] : [col];
+    return keys.map(k => `${k} ${direction}${nulls}`).join(', ');
+  });
+  let suffix = order.length ? ` ORDER BY ${order.join(', ')}` : '';
+  if (options.limit !== undefined) suffix += ` LIMIT ${options.limit}`;
+  else if (options.offset) suffix += dialect.noLimit ? ` LIMIT ${dialect.noLimit}` : '';
+  if (options.offset) suffix += ` OFFSET ${options.offset}`;
+  return { columns, suffix };
+}
+
+function compareValues(a: any, b: any): number {
+  const aNull = a === null || a === undefined, bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull && bNull ? 0 : aNull ? -1 : 1;
+  if (a instanceof Date || b instanceof Date) return new Date(a).getTime() - new Date(b).getTime();
+  const na = Number(a), nb = Number(b);
+  if (a !== '' && b !== '' && typeof a !== 'boolean' && typeof b !== 'boolean' && !isNaN(na) && !isNaN(nb)) return na - nb;
+  const sa = String(a), sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+/**
+ * Returns a comparator implementing `orderBy` for in-process sorting.
+ */
+export function sortComparator(orderBy: Record<string, any>): (a: any, b: any) => number {
+  const entries = Object.entries(orderBy);
+  return (a, b) => {
+    for (const [field, dir] of entries) {
+      const diff = compareValues(getPath(a, field), getPath(b, field));
+      if (diff !== 0) return String(dir).toLowerCase() === 'desc' ? -diff : diff;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Keeps only the requested fields of a row. Dot-paths keep just the nested value, inside its parent
+ * objects (`profile.city` gives `{ profile: { city } }`), as MongoDB projections do.
+ */
+export function projectRow<T = any>(row: any, fields?: string[]): T {
+  if (!fields || !fields.length) return row;
+  const out: any = {};
+  for (const f of fields) {
+    const value = getPath(row, f);
+    if (value !== undefined) setPath(out, f, value);
+  }
+  return out;
+}
+
+/**
+ * Filters, sorts, paginates and projects rows in-process.
+ * Without `orderBy`, iteration stops as soon as enough rows have been collected.
+ */
+export function queryRows<T = any>(rows: Iterable<any>, where: WhereClause | null | undefined, options: SelectOptions = {}): T[] {
+  assertCount('limit', options.limit);
+  assertCount('offset', options.offset);
+  const offset = options.offset || 0;
+  const sorted = !!options.orderBy && Object.keys(options.orderBy).length > 0;
+  const end = options.limit !== undefined ? offset + options.limit : Infinity;
+  let matched: any[] = [];
+  for (const row of rows) {
+    if (!matchesWhere(row, where)) continue;
+    matched.push(row);
+    if (!sorted && matched.length >= end) break;
+  }
+  if (sorted) matched.sort(sortComparator(options.orderBy!));
+  matched = matched.slice(offset, end);
+  return matched.map(r => projectRow<T>(r, options.fields));
+}
+
+/**
+ * Narrows a where clause to rows where `field` holds a non-null value.
+ */
+export function withFieldPresent(where: WhereClause | null | undefined, field: string): WhereClause {
+  const present = { [field]: { $exists: true } };
+  return where && Object.keys(where).length ? { $and: [where, present] } : present;
+}
+
+/**
+ * SELECT DISTINCT over the non-null values of a column or dot-path, returned under the field's name.
+ */
+export function compileDistinct(from: string, field: string, where: WhereClause | null | undefined, dialect: SqlDialect): { sql: string; values: any[] } {
+  const { whereClause, values } = compileWhere(withFieldPresent(where, field), dialect);
+  return { sql: `SELECT DISTINCT ${columnRef(field, dialect).col} AS ${dialect.quote(field)} FROM ${from} ${whereClause}`, values };
+}
+
+/**
+ * Collects the distinct non-null values of `field`, using the same loose equality as `matchesWhere`.
+ */
+export function distinctValues<T = any>(rows: Iterable<any>, field: string): T[] {
+  const seen = new Map<string, T>();
+  for (const row of rows) {
+    const v = getPath(row, field);
+    if (v === null || v === undefined) continue;
+    const key = typeof v === 'object' ? JSON.stringify(v) : String(v);
+    if (!seen.has(key)) seen.set(key, v);
+  }
+  return Array.from(seen.values());
+}
+
+// Numeric strings (ZPack and Redis ids, TEXT columns) sort numerically, so cursor values compare the same way
+function cursorValue(v: any): any {
+  return typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v)) ? Number(v) : v;
+}
+
+function sortsAfter(field: string, dir: SortDirection, value: any): WhereClause {
+  const desc = String(dir).toLowerCase() === 'desc';
+  // NULLs come first ascending and last descending on every adapter
+  if (value === null || value === undefined) return desc ? { $or: [] } : { [field]: { $exists: true } };
+  return desc ? { $or: [{ [field]: { $lt: value } }, { [field]: { $exists: false } }] } : { [field]: { $gt: value } };
+}
+
+/**
+ * Builds the select for one page of keyset pagination: `_id` is appended to `orderBy` as a
+ * tie-breaker and the `after` cursor becomes a `where` condition. One extra row is fetched to
+ * detect whether another page exists.
+ */
+export function keysetQuery(options: PaginateOptions = {}): { where: WhereClause | null; orderBy: Record<string, SortDirection>; limit: number } {
+  const limit = options.limit ?? 20;
+  if (!Number.isInteger(limit) || limit < 1) throw new Error(`'limit' pozitif bir tam sayı olmalıdır.`);
+  const orderBy: Record<string, SortDirection> = {};
+  for (const [field, dir] of Object.entries(options.orderBy || {})) orderBy[field] = dir ?? 'asc';
+  if (!orderBy._id) orderBy._id = 'asc';
+  if (!options.after) return { where: options.where || null, orderBy, limit };
+
+  const fields = Object.keys(orderBy);
+  let values: any[];
+  try {
+    const decoded = JSON.parse(Buffer.from(options.after, 'base64url').toString('utf8'));
+    if (JSON.stringify(decoded.k) !== JSON.stringify(fields) || !Array.isArray(decoded.v)) throw new Error();
+    values = decoded.v;
+  } catch {
+    throw new Error('Geçersiz sayfalama imleci (cursor). İmleç aynı orderBy ile üretilmiş olmalıdır.');
+  }
+  const after: WhereClause = {
+    $or: fields.map((field, i) => ({
+      $and: [...fields.slice(0, i).map((f, j) => ({ [f]: values[j] })), sortsAfter(field, orderBy[field], values[i])]
+    }))
+  };
+  const where = options.where && Object.keys(options.where).length ? { $and: [options.where, after] } : after;
+  return { where, orderBy, limit };
+}
+
+/**
+ * Turns the `limit + 1` rows fetched for `keysetQuery` into a page with an opaque cursor.
+ */
+export function toPage<T>(rows: T[], orderBy: Record<string, SortDirection>, limit: number): Page<T> {
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit);
+  const last: any = items[items.length - 1];
+  const fields = Object.keys(orderBy);
+  const nextCursor = hasMore && last
+    ? Buffer.from(JSON.stringify({ k: fields, v: fields.map(f => cursorValue(getPath(last, f) ?? null)) })).toString('base64url')
+    : null;
+  return { items, nextCursor, hasMore };
+}
+
+const METRICS = ['$sum', '$avg', '$min', '$max', '$count'];
+
+/**
+ * Normalizes aggregate options into group fields and `[alias, operator, field]` metric tuples.
+ */
+export function parseAggregate(options: AggregateOptions): { groupBy: string[]; metrics: [string, string, string][] } {
+  const groupBy = options.groupBy === undefined ? [] : Array.isArray(options.groupBy) ? options.groupBy : [options.groupBy];
+  const metrics = Object.entries(options.metrics || {}).map(([alias, metric]) => {
+    const entries = Object.entries(metric || {});
+    if (entries.length !== 1 || !METRICS.includes(entries[0][0])) {
+      throw new Error(`'${alias}' metriği için geçersiz tanım. Desteklenenler: ${METRICS.join(', ')}`);
+    }
+    return [alias, entries[0][0], String(entries[0][1])] as [string, string, string];
+  });
+  if (!metrics.length && !groupBy.length) throw new Error('aggregate en az bir metrik veya groupBy alanı gerektirir.');
+  return { groupBy, metrics };
+}
+
+/**
+ * Returns the columns referenced by an aggregation for `ensureTable`.
+ */
+export function aggregateColumns(options: AggregateOptions): Record<string, any> {
+  const { groupBy, metrics } = parseAggregate(options);
+  const out: Record<string, any> = { ...whereColumns(options.where) };
+  for (const f of [...groupBy, ...metrics.map(m => m[2]).filter(f => f !== '*')]) Object.assign(out, pathColumns({ [f]: null }));
+  return out;
+}
+
+/**
+ * Converts raw aggregate results to numbers; drivers return SUM/AVG as strings for DECIMAL and BIGINT.
+ */
+export function normalizeAggregateRow(row: Record<string, any>, metrics: [string, string, string][]): Record<string, any> {
+  for (const [alias, op] of metrics) {
+    const v = row[alias];
+    row[alias] = v === null || v === undefined ? (op === '$sum' || op === '$count' ? 0 : null) : Number(v);
+  }
+  return row;
+}
+
+/**
+ * Compiles an aggregation into a single SQL statement. `having` filters the grouped
+ * output through a derived table, so it can reference metric aliases on every dialect.
+ */
+export function compileAggregate(from: string, options: AggregateOptions, dialect: SqlDialect): { sql: string; values: any[] } {
+  const { groupBy, metrics } = parseAggregate(options);
+  const numeric = (field: string) => { const ref = columnRef(field, dialect); return ref.numeric || ref.col; };
+  const select = [
+    ...groupBy.map(f => `${columnRef(f, dialect).col} AS ${dialect.quote(f)}`),
+    ...metrics.map(([alias, op, field]) => {
+      const fn = op.slice(1).toUpperCase();
+      const expr = op === '$count' ? (field === '*' ? '*' : columnRef(field, dialect).col) : numeric(field);
+      return `${fn}(${expr}) AS ${dialect.quote(alias)}`;
+    })
+  ];
+  const { whereClause, values } = compileWhere(options.where, dialect);
+  let sql = `SELECT ${select.join(', ')} FROM ${from} ${whereClause}`;
+  if (groupBy.length) sql += ` GROUP BY ${groupBy.map(f => columnRef(f, dialect).col).join(', ')}`;
+  if (options.having && Object.keys(options.having).length) {
+    const having = compileWhere(options.having, dialect, values.length);
+    sql = `SELECT * FROM (${sql}) AS ${dialect.quote('_agg')} ${having.whereClause}`;
+    values.push(...having.values);
+  }
+  return { sql, values };
+}
+
+/**
+ * In-process aggregation engine used by the file and Redis adapters.
+ */
+export function aggregateRows(rows: Iterable<any>, options: AggregateOptions): Record<string, any>[] {
+  const { groupBy, metrics } = parseAggregate(options);
+  const groups = new Map<string, { key: Record<string, any>; rows: any[] }>();
+  for (const row of rows) {
+    if (!matchesWhere(row, options.where)) continue;
+    const values = groupBy.map(f => getPath(row, f) ?? null);
+    const id = JSON.stringify(values.map(v => v === null ? null : String(v)));
+    if (!groups.has(id)) groups.set(id, { key: Object.fromEntries(groupBy.map((f, i) => [f, values[i]])), rows: [] });
+    groups.get(id)!.rows.push(row);
+  }
+  // Without groupBy SQL returns one row even for an empty table
+  if (!groupBy.length && !groups.size) groups.set('[]', { key: {}, rows: [] });
+
+  const results: Record<string, any>[] = [];
+  for (const { key, rows: members } of groups.values()) {
+    const out: Record<string, any> = { ...key };
+    for (const [alias, op, field] of metrics) {
+      if (op === '$count') {
+        out[alias] = field === '*' ? members.length : members.filter(r => getPath(r, field) !== null && getPath(r, field) !== undefined).length;
+        continue;
+      }
+      const nums = members.map(r => getPath(r, field)).filter(v => v !== null && v !== undefined && v !== '' && !isNaN(Number(v))).map(Number);
+      if (op === '$sum') out[alias] = nums.reduce((a, b) => a + b, 0);
+      else if (!nums.length) out[alias] = null;
+      else if (op === '$avg') out[alias] = nums.reduce((a, b) => a + b, 0) / nums.length;
+      else out[alias] = nums.reduce((a, b) => op === '$min' ? Math.min(a, b) : Math.max(a, b));
+    }
+    if (matchesWhere(out, options.having)) results.push(out);
+  }
+  return results;
+}
@@ -0,0 +1,163 @@
+// database/queryBuilder.ts
+import type { IDatabase } from './IDatabase';
+import { WhereClause, SelectOptions, SortDirection } from './types';
+
+export type QueryOperator = '=' | '!=' | '<>' | '>' | '>=' | '<' | '<=' | 'in' | 'not in' | 'like';
+
+/** Field names of a row type; any string when the row type is not known. */
+export type Field<T> = Extract<keyof T, string>;
+
+const OPERATORS: Record<QueryOperator, string> = {
+  '=': '$eq',
+  '!=': '$ne',
+  '<>': '$ne',
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+  'in': '$in',
+  'not in': '$nin',
+  'like': '$like',
+};
+
+/**
+ * Chainable query over a single table. Conditions compile to the portable `where` syntax, so every
+ * adapter runs them natively. `where` joins with AND and `orWhere` starts a new OR branch, like SQL.
+ */
+export class QueryBuilder<T extends Record<string, any> = any> {
+  private db: IDatabase;
+  private tableName: string;
+  private groups: WhereClause[][] = [[]];
+  private options: SelectOptions = {};
+
+  constructor(database: IDatabase, table: string) {
+    this.db = database;
+    this.tableName = table;
+  }
+
+  where<K extends Field<T>>(field: K, value: T[K] | null): this;
+  where<K extends Field<T>>(field: K, operator: QueryOperator, value: any): this;
+  where(conditions: WhereClause): this;
+  where(group: (query: QueryBuilder<T>) => unknown): this;
+  where(...args: any[]): this {
+    this.groups[this.groups.length - 1].push(this._condition(args));
+    return this;
+  }
+
+  orWhere<K extends Field<T>>(field: K, value: T[K] | null): this;
+  orWhere<K extends Field<T>>(field: K, operator: QueryOperator, value: any): this;
+  orWhere(conditions: WhereClause): this;
+  orWhere(group: (query: QueryBuilder<T>) => unknown): this;
+  orWhere(...args: any[]): this {
+    const current = this.groups[this.groups.length - 1];
+    if (current.length) this.groups.push([]);
+    this.groups[this.groups.length - 1].push(this._condition(args));
+    return this;
+  }
+
+  whereIn<K extends Field<T>>(field: K, values: T[K][]): this {
+    return this.where(field, 'in', values);
+  }
+
+  whereNotIn<K extends Field<T>>(field: K, values: T[K][]): this {
+    return this.where(field, 'not in', values);
+  }
+
+  whereNull(field: Field<T>): this {
+    return this.where({ [field]: { $exists: false } });
+  }
+
+  whereNotNull(field: Field<T>): this {
+    return this.where({ [field]: { $exists: true } });
+  }
+
+  orderBy(field: Field<T>, direction: SortDirection = 'asc'): this {
+    this.options.orderBy = { ...(this.options.orderBy || {}), [field]: direction };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.options.limit = count;
+    return this;
+  }
+
+  offset(count: number): this {
+    this.options.offset = count;
+    return this;
+  }
+
+  /**
+   * Loads relations defined with `defineRelation` onto the returned rows.
+   */
+  include(...relations: string[]): this {
+    this.options.include = [...(this.options.include || []), ...relations];
+    return this;
+  }
+
+  select<K extends Field<T>>(...fields: K[]): QueryBuilder<Pick<T, K>> {
+    this.options.fields = fields;
+    return this as unknown as QueryBuilder<Pick<T, K>>;
+  }
+
+  /**
+   * Returns the compiled `where` clause and select options.
+   */
+  toQuery(): { where: WhereClause; options: SelectOptions } {
+    const branches = this.groups.filter(g => g.length).map(g => g.length === 1 ? g[0] : { $and: g });
+    const where = branches.length === 0 ? {} : branches.length === 1 ? branches[0] : { $or: branches };
+    return { where, options: { ...this.options } };
+  }
+
+  async get(): Promise<T[]> {
+    const { where, options } = this.toQuery();
+    return this.db.select<T>(this.tableName, where, options);
+  }
+
+  async first(): Promise<T | null> {
+    const { where, options } = this.toQuery();
+    const rows = await this.db.select<T>(this.tableName, where, { ...options, limit: 1 });
+    return rows[0] ?? null;
+  }
+
+  async count(): Promise<number> {
+    return this.db.count(this.tableName, this.toQuery().where);
+  }
+
+  async exists(): Promise<boolean> {
+    return this.db.exists(this.tableName, this.toQuery().where);
+  }
+
+  async update(data: Partial<T>): Promise<number> {
+    return this.db.update(this.tableName, data, this.toQuery().where);
+  }
+
+  async delete(): Promise<number> {
+    return this.db.delete(this.tableName, this.toQuery().where);
+  }
+
+  async increment(field: Field<T> | Partial<Record<Field<T>, number>>, amount: number = 1): Promise<number> {
+    const increments = typeof field === 'string' ? { [field]: amount } : field;
+    return this.db.increment(this.tableName, increments as Record<string, number>, this.toQuery().where);
+  }
+
+  async decrement(field: Field<T> | Partial<Record<Field<T>, number>>, amount: number = 1): Promise<number> {
+    const decrements = typeof field === 'string' ? { [field]: amount } : field;
+    return this.db.decrement(this.tableName, decrements as Record<string, number>, this.toQuery().where);
+  }
+
+  private _condition(args: any[]): WhereClause {
+    const [first, second, third] = args;
+    if (typeof first === 'function') {
+      const nested = new QueryBuilder<T>(this.db, this.tableName);
+      first(nested);
+      return nested.toQuery().where;
+    }
+    if (typeof first === 'object' && first !== null) return first;
+    if (args.length === 2) return { [first]: second };
+    const op = OPERATORS[second as QueryOperator];
+    if (!op) throw new Error(`Geçersiz operatör: '${second}'. Desteklenenler: ${Object.keys(OPERATORS).join(', ')}`);
+    return { [first]: op === '$eq' ? third : { [op]: third } };
+  }
+}
+
+export default QueryBuilder;
@@ -1,14 +1,24 @@
 import { IDatabase } from './IDatabase';
-import { createClient, RedisClientType } from 'redis';
-import { RedisConfig } from './types';
+import { createClient, RedisClientType, WatchError } from 'redis';
+import { RedisConfig, SelectOptions, AggregateOptions, StreamOptions, IndexOptions, ChangeEvent } from './types';
+import { queryRows, distinctValues, aggregateRows, matchesWhere, batchSizeOf, assignPaths, incrementPaths, isOperatorObject } from './query';
+import { normalizeIndex, assertUnique, indexKey, indexValues, IndexDefinition } from './indexes';
+import { UniqueConstraintError } from './errors';
+
+/** How often an update is retried when a concurrent write touches its rows. */
+const MAX_WATCH_ATTEMPTS = 10;
 
 export class RedisDatabase extends IDatabase {
   private config: RedisConfig;
   private client: RedisClientType | null = null;
+  private _multi: ReturnType<RedisClientType['multi']> | null = null;
+  private _subscriber: RedisClientType | null = null;
   private keyPrefix: string;
   private _queue: Array<{ operation: () => Promise<any>; resolve: (val: any) => void; reject: (err: any) => void }> = [];
   private _isReady: boolean = false;
   private _connectionPromise: Promise<void> | null = null;
+  /** Tables whose id set is known to hold every row, so `_ensureIdSet` can skip Redis. */
+  private _idSetsReady = new Set<string>();
 
   constructor(config: RedisConfig) {
     super();
@@ -70,66 +80,249 @@ export class RedisDatabase extends IDatabase {
     });
   }
 
+  /**
+   * Writes are queued on MULTI inside db.transaction and sent straight to Redis otherwise.
+   * Reads inside a transaction therefore see the data as it was before the transaction.
+   */
+  private get _writer(): RedisClientType {
+    return (this._multi ?? this.client!) as unknown as RedisClientType;
+  }
+
   private _getKey(table: string, id: string): string { return `${this.keyPrefix}${table}:${id}`; }
   private _getTableKey(table: string): string { return `${this.keyPrefix}${table}:*`; }
+  private _getIdSetKey(table: string): string { return `${this.keyPrefix}${table}`; }
+  private _getIdSetMarkerKey(table: string): string { return `${this.keyPrefix}_ids:${table}`; }
+  private _getIndexKey(table: string, name: string): string { return `${this.keyPrefix}_idx:${table}:${name}`; }
+
+  /**
+   * Sorted-set member of a row in an index: its key followed by its id, so equal keys sort next to each other.
+   */
+  private _indexMember(index: IndexDefinition, row: any): string | null {
+    const values = indexValues(row, index);
+    return values && `${indexKey(values)}:${row._id || row.id}`;
+  }
+
+  /**
+   * Ids stored under one key of an index, read with ZRANGEBYLEX.
+   */
+  private async _indexIds(table: string, index: IndexDefinition, values: any[]): Promise<string[]> {
+    const key = indexKey(values);
+    const members = await this.client!.zRangeByLex(this._getIndexKey(table, index.name), `[${key}:`, `(${key};`);
+    return members.map(m => m.slice(key.length + 1));
+  }
+
+  /**
+   * Candidate ids for a plain equality on a single-field index, or null when no index applies.
+   */
+  private async _indexCandidates(table: string, where: Record<string, any> | null): Promise<string[] | null> {
+    if (!where || Object.keys(where).length !== 1) return null;
+    const [field, value] = Object.entries(where)[0];
+    if (value === null || value === undefined || isOperatorObject(value)) return null;
+    const index = (this.indexes[table] || []).find(i => i.fields.length === 1 && i.fields[0] === field);
+    return index ? this._indexIds(table, index, [value]) : null;
+  }
+
+  /**
+   * Rejects rows that would share a unique key with each other or with a row outside the batch.
+   */
+  private async _assertUnique(table: string, rows: any[]): Promise<void> {
+    const batch = new Set(rows.map(r => String(r._id || r.id)));
+    for (const index of this.indexes[table] || []) {
+      if (!index.unique) continue;
+      assertUnique(table, [index], rows);
+      for (const row of rows) {
+        const values = indexValues(row, index);
+        if (!values) continue;
+        const ids = await this._indexIds(table, index, values);
+        if (ids.some(id => !batch.has(id))) throw new UniqueConstraintError(table, index.fields, values);
+      }
+    }
+  }
+
+  /**
+   * Moves a row's index entries from its old values (`before`) to its new ones (`after`).
+   */
+  private async _reindex(table: string, after: any | null, before: any | null, writer: RedisClientType = this._writer): Promise<void> {
+    for (const index of this.indexes[table] || []) {
+      const key = this._getIndexKey(table, index.name);
+      const from = before && this._indexMember(index, before);
+      const to = after && this._indexMember(index, after);
+      if (from === to) continue;
+      if (from) await writer.zRem(key, from);
+      if (to) await writer.zAdd(key, { score: 0, value: to });
+    }
+  }
+
+  /**
+   * Makes sure the per-table id set holds every row, rebuilding it with SCAN for data written before it was
+   * introduced. A marker key records the rebuild: the set itself can't, as any write creates it. Runs before
+   * every write to the set, so the first insert after an upgrade doesn't leave the older rows out.
+   */
+  private async _ensureIdSet(table: string): Promise<void> {
+    if (this._idSetsReady.has(table)) return;
+    const marker = this._getIdSetMarkerKey(table);
+    if (!(await this.client!.exists(marker))) {
+      const setKey = this._getIdSetKey(table);
+      const prefix = `${this.keyPrefix}${table}:`;
+      let ids: string[] = [];
+      for await (const key of this.client!.scanIterator({ MATCH: this._getTableKey(table), COUNT: 500 })) {
+        ids.push(key.slice(prefix.length));
+        if (ids.length >= 500) {
+          await this.client!.sAdd(setKey, ids);
+          ids = [];
+        }
+      }
+      if (ids.length) await this.client!.sAdd(setKey, ids);
+      await this.client!.set(marker, '1');
+    }
+    this._idSetsReady.add(table);
+  }
 
-  async select<T = any>(table: string, where: Record<string, any> = {}): Promise<T[]> {
+  async select<T = any>(table: string, where: Record<string, any> = {}, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
     return this._execute('select', table, async () => {
-      const keys = await this.client!.keys(this._getTableKey(table));
+      const ids = await this._indexCandidates(table, where);
+      const keys = ids ? ids.map(id => this._getKey(table, id)) : await this.client!.keys(this._getTableKey(table));
       if (!keys.length) return [];
       const vals = await this.client!.mGet(keys);
-      return vals.map(v => v ? JSON.parse(v) : null).filter(Boolean)
-        .filter(item => Object.entries(where).every(([k, v]) => String(item[k]) === String(v))) as T[];
+      return queryRows<T>(vals.map(v => v ? JSON.parse(v) : null).filter(Boolean), where, options);
     });
   }
 
+  /**
+   * Walks the table with SCAN instead of KEYS, loading `batchSize` rows per MGET.
+   */
+  async *stream<T = any>(table: string, where: Record<string, any> = {}, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    await this._execute('stream', table, async () => {});
+    let keys: string[] = [];
+    const flush = async () => {
+      const vals = await this.client!.mGet(keys);
+      keys = [];
+      return vals.map(v => v ? JSON.parse(v) : null).filter(row => row && matchesWhere(row, where));
+    };
+    for await (const key of this.client!.scanIterator({ MATCH: this._getTableKey(table), COUNT: batchSize })) {
+      keys.push(key);
+      if (keys.length >= batchSize) yield* (await flush()) as T[];
+    }
+    if (keys.length) yield* (await flush()) as T[];
+  }
+
   async selectOne<T = any>(table: string, where: Record<string, any> = {}): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
   async insert(table: string, data: Record<string, any>): Promise<any> {
-    await this.runHooks('beforeInsert', table, data);
+    this.validate(table, data);
     return this._execute('insert', table, async () => {
       const d = { ...data };
       if (!d._id && !d.id) d._id = Date.now().toString() + Math.random().toString(36).slice(2, 9);
       const id = String(d._id || d.id);
-      await this.client!.set(this._getKey(table, id), JSON.stringify(d));
-      await this.runHooks('afterInsert', table, d);
+      await this._assertUnique(table, [d]);
+      await this._ensureIdSet(table);
+      await this._writer.set(this._getKey(table, id), JSON.stringify(d));
+      await this._writer.sAdd(this._getIdSetKey(table), id);
+      await this._reindex(table, d, null);
       return d._id || d.id;
     });
   }
 
   async update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeUpdate', table, { data, where });
+    this.validate(table, data, true);
     return this._execute('update', table, async () => {
-      const existing = await this.select(table, where);
-      for (const item of existing) {
-        const merged = { ...item, ...data };
-        await this.client!.set(this._getKey(table, item._id || item.id), JSON.stringify(merged));
+      if (this._multi) return this._update(table, data, await this.select(table, where), this._writer);
+      // Outside a transaction the rows are WATCHed and re-read, so a write that lands between reading
+      // and writing them aborts EXEC and the update runs again on the new values
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await this.client!.executeIsolated(async isolated => {
+            const candidates = await this.select(table, where);
+            const keys = candidates.map(item => this._getKey(table, item._id || item.id));
+            if (!keys.length) return 0;
+            await isolated.watch(keys);
+            const rows = (await isolated.mGet(keys)).map(v => v ? JSON.parse(v) : null).filter(row => row && matchesWhere(row, where));
+            const multi = isolated.multi();
+            const affected = await this._update(table, data, rows, multi as unknown as RedisClientType);
+            await multi.exec();
+            return affected;
+          });
+        } catch (error) {
+          if (!(error instanceof WatchError) || attempt >= MAX_WATCH_ATTEMPTS) throw error;
+        }
       }
-      return existing.length;
     });
   }
 
+  private async _update(table: string, data: Record<string, any>, existing: any[], writer: RedisClientType): Promise<number> {
+    const updated = existing.map(item => assignPaths({ ...item }, data));
+    await this._assertUnique(table, updated);
+    for (let i = 0; i < existing.length; i++) {
+      const item = existing[i];
+      await writer.set(this._getKey(table, item._id || item.id), JSON.stringify(updated[i]));
+      await this._reindex(table, updated[i], item, writer);
+    }
+    return existing.length;
+  }
+
   async delete(table: string, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeDelete', table, where);
     return this._execute('delete', table, async () => {
       const existing = await this.select(table, where);
       if (existing.length) {
         const keys = existing.map(i => this._getKey(table, String(i._id || i.id)));
-        await this.client!.del(keys);
+        await this._writer.del(keys);
+        await this._ensureIdSet(table);
+        await this._writer.sRem(this._getIdSetKey(table), existing.map(i => String(i._id || i.id)));
+        for (const item of existing) await this._reindex(table, null, item);
       }
       return existing.length;
     });
   }
 
+  async count(table: string, where: Record<string, any> = {}): Promise<number> {
+    return this._execute('count', table, async () => {
+      if (!where || !Object.keys(where).length) {
+        await this._ensureIdSet(table);
+        return this.client!.sCard(this._getIdSetKey(table));
+      }
+      const rows = await this.select(table, where);
+      return rows.length;
+    });
+  }
+
+  async exists(table: string, where: Record<string, any> = {}): Promise<boolean> {
+    return this._execute('exists', table, async () => {
+      if (!where || !Object.keys(where).length) {
+        await this._ensureIdSet(table);
+        return (await this.client!.sCard(this._getIdSetKey(table))) > 0;
+      }
+      const rows = await this.select(table, where, { limit: 1 });
+      return rows.length > 0;
+    });
+  }
+
+  async distinct<T = any>(table: string, field: string, where: Record<string, any> = {}): Promise<T[]> {
+    return this._execute('distinct', table, async () => {
+      const rows = await this.select(table, where);
+      return distinctValues<T>(rows, field);
+    });
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute('aggregate', table, async () => {
+      const rows = await this.select(table, options.where || {});
+      return aggregateRows(rows, { ...options, where: null });
+    });
+  }
+
   async set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any> {
     const ex = await this.selectOne(table, where);
     return ex ? this.update(table, data, where) : this.insert(table, { ...data, ...where });
   }
 
   async bulkInsert(table: string, dataArray: Record<string, any>[]): Promise<number> {
+    this.validate(table, dataArray);
+    await this._execute('bulkInsert', table, () => this._assertUnique(table, dataArray));
     for (const d of dataArray) await this.insert(table, d);
     return dataArray.length;
   }
@@ -140,7 +333,9 @@ export class RedisDatabase extends IDatabase {
   async increment(table: string, incs: Record<string, number>, where: Record<string, any> = {}): Promise<number> {
     return this._execute('increment', table, async () => {
       const recs = await this.select(table, where);
-      for (const r of recs) {
+      const updated = recs.map(r => incrementPaths({ ...r }, incs));
+      await this._assertUnique(table, updated);
+      for (const [i, r] of recs.entries()) {
         const id = String(r._id || r.id);
         const key = this._getKey(table, id);
         
@@ -153,15 +348,24 @@ export class RedisDatabase extends IDatabase {
             local data = cjson.decode(val)
             local incs = cjson.decode(ARGV[1])
             for k, v in pairs(incs) do
-                data[k] = (tonumber(data[k]) or 0) + v
+                local node, last = data, nil
+                for part in string.gmatch(k, '[^.]+') do
+                    if last then
+                        if type(node[last]) ~= 'table' then node[last] = {} end
+                        node = node[last]
+                    end
+                    last = part
+                end
+                node[last] = (tonumber(node[last]) or 0) + v
             end
             redis.call('set', KEYS[1], cjson.encode(data))
             return 1
         `;
-        await this.client!.eval(lua, {
+        await this._writer.eval(lua, {
             keys: [key],
             arguments: [JSON.stringify(incs)]
         });
+        await this._reindex(table, updated[i], r);
       }
       return recs.length;
     });
@@ -173,7 +377,70 @@ export class RedisDatabase extends IDatabase {
     return this.increment(table, incs, where);
   }
 
+  /**
+   * Keeps each index in a sorted set of `key:id` members, rebuilt here from the stored rows.
+   * Equality selects on a single-field index read their ids from it instead of scanning the table.
+   */
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute('createIndex', table, async () => {
+      const rows = await this.select(table);
+      assertUnique(table, [index], rows);
+      const key = this._getIndexKey(table, index.name);
+      const members = rows.map(r => this._indexMember(index, r)).filter((m): m is string => m !== null);
+      await this.client!.del(key);
+      if (members.length) await this.client!.zAdd(key, members.map(value => ({ score: 0, value })));
+      this.registerIndex(table, index);
+    });
+  }
+
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let multi: ReturnType<RedisClientType['multi']> | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        await this._execute('transaction', '', async () => {});
+        multi = this.client!.multi();
+        return { _multi: multi };
+      },
+      commit: async () => { await multi!.exec(); },
+      // Queued commands are only sent on EXEC, so dropping the queue discards them
+      rollback: async () => {},
+    });
+  }
+
+  protected override capturesChanges(table: string): boolean {
+    return super.capturesChanges(table) || !!this.config.publishChanges;
+  }
+
+  private get _changesChannel(): string {
+    return `${this.keyPrefix}changes`;
+  }
+
+  /**
+   * Changes go out with PUBLISH, so every instance subscribed to the prefix receives them, this one included.
+   */
+  protected override async sendChange(event: ChangeEvent): Promise<void> {
+    await this._ensureConnection();
+    await this.client!.publish(this._changesChannel, JSON.stringify(event));
+  }
+
+  protected override async startWatching(): Promise<void> {
+    await this._ensureConnection();
+    // A subscribed connection cannot run other commands, so the feed gets its own
+    const subscriber = this.client!.duplicate();
+    await subscriber.connect();
+    await subscriber.subscribe(this._changesChannel, (message) => this.deliverChange(JSON.parse(message)));
+    this._subscriber = subscriber as RedisClientType;
+  }
+
+  protected override async stopWatching(): Promise<void> {
+    const subscriber = this._subscriber;
+    this._subscriber = null;
+    if (subscriber) await subscriber.quit().catch(() => {});
+  }
+
   async close(): Promise<void> { 
+      await this.closeWatchers();
       if (this.client) { 
           await this.client.quit(); 
           this.client = null; 
@@ -0,0 +1,189 @@
+// database/relations.ts
+import { RelationDefinition, RelationType } from './types';
+import { getPath, SqlDialect } from './query';
+import { indexValue } from './indexes';
+
+const RELATION_TYPES: RelationType[] = ['hasOne', 'hasMany', 'belongsTo'];
+
+/**
+ * Validates a relation definition and fills in the default key.
+ */
+export function normalizeRelation(table: string, name: string, relation: RelationDefinition): Required<RelationDefinition> {
+  if (!relation || !RELATION_TYPES.includes(relation.type)) {
+    throw new Error(`'${table}.${name}' için geçersiz ilişki tipi: ${relation?.type}. Desteklenenler: ${RELATION_TYPES.join(', ')}`);
+  }
+  if (!relation.table || !relation.foreignKey) {
+    throw new Error(`'${table}.${name}' ilişkisi için 'table' ve 'foreignKey' gereklidir.`);
+  }
+  return { ...relation, key: relation.key || '_id' };
+}
+
+/**
+ * Column read from the loaded rows (`local`) and the column of the related table it is matched against (`remote`).
+ */
+export function relationColumns(relation: Required<RelationDefinition>): { local: string; remote: string } {
+  return relation.type === 'belongsTo'
+    ? { local: relation.foreignKey, remote: relation.key }
+    : { local: relation.key, remote: relation.foreignKey };
+}
+
+/**
+ * Groups `include` paths by their first relation: `['items.product', 'user']` becomes
+ * `{ items: ['product'], user: [] }`.
+ */
+export function splitIncludes(include: string[]): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const path of include) {
+    const [name, ...rest] = path.split('.');
+    out[name] = out[name] || [];
+    if (rest.length) out[name].push(rest.join('.'));
+  }
+  return out;
+}
+
+/**
+ * Distinct non-null values of the local column, to load the related rows in one query.
+ */
+export function relationKeys(rows: any[], relation: Required<RelationDefinition>): any[] {
+  const { local } = relationColumns(relation);
+  const keys = new Map<string, any>();
+  for (const row of rows) {
+    const value = getPath(row, local);
+    if (value !== null && value !== undefined) keys.set(indexValue(value), value);
+  }
+  return Array.from(keys.values());
+}
+
+/**
+ * Sets `row[name]` on every row from the related rows: an array for hasMany, a row or null otherwise.
+ * Keys are compared as text, so string references to numeric ids still match.
+ */
+export function attachRelated(rows: any[], name: string, relation: Required<RelationDefinition>, related: any[]): void {
+  const { local, remote } = relationColumns(relation);
+  const byKey = new Map<string, any[]>();
+  for (const item of related) {
+    const value = getPath(item, remote);
+    if (value === null || value === undefined) continue;
+    const key = indexValue(value);
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(item);
+  }
+  for (const row of rows) {
+    const value = getPath(row, local);
+    const matches = value === null || value === undefined ? [] : byKey.get(indexValue(value)) || [];
+    row[name] = relation.type === 'hasMany' ? matches : matches[0] ?? null;
+  }
+}
+
+/**
+ * A relation to load, with the relations to load on its rows in turn.
+ */
+export interface IncludeNode {
+  name: string;
+  relation: Required<RelationDefinition>;
+  /** The nested `include` paths, relative to the related table. */
+  include: string[];
+  children: IncludeNode[];
+}
+
+/**
+ * Resolves `include` paths against the defined relations, throwing for unknown names.
+ */
+export function includeTree(relations: Record<string, Record<string, Required<RelationDefinition>>>, table: string, include: string[]): IncludeNode[] {
+  return Object.entries(splitIncludes(include)).map(([name, nested]) => {
+    const relation = relations[table]?.[name];
+    if (!relation) throw new Error(`'${table}' tablosunda '${name}' ilişkisi tanımlı değil.`);
+    return { name, relation, include: nested, children: includeTree(relations, relation.table, nested) };
+  });
+}
+
+/**
+ * The related tables of a node and its nested relations.
+ */
+export function includeTables(node: IncludeNode): string[] {
+  return [node.relation.table, ...node.children.flatMap(includeTables)];
+}
+
+/**
+ * A joined relation of `compileJoin`: its table alias, whose columns come back as `<alias>.<column>`.
+ */
+export interface JoinedRelation {
+  alias: string;
+  node: IncludeNode;
+  columns: string[];
+  children: JoinedRelation[];
+}
+
+/**
+ * Builds one SELECT that LEFT JOINs the rows of `table` with the given `_id`s to a relation and its nested
+ * relations. `columns` lists the columns of every table involved; soft-deleted rows of the `softDeleted`
+ * tables are left out. Returns null when a table or key column is missing (or a key is a dot-path),
+ * so the caller can fall back to `$in` loading.
+ */
+export function compileJoin(table: string, node: IncludeNode, ids: any[], dialect: SqlDialect, columns: Record<string, string[]>, softDeleted: string[] = []): { sql: string; values: any[]; joined: JoinedRelation } | null {
+  const q = dialect.quote;
+  const equals = dialect.keysEqual || ((left: string, right: string) => `${left} = ${right}`);
+  const select = [`${q('p')}.${q('_id')} AS ${q('_parent')}`];
+  const joins: string[] = [];
+  const order: string[] = [];
+  const join = (node: IncludeNode, parentTable: string, parentAlias: string): JoinedRelation | null => {
+    const alias = `j${joins.length}`;
+    const { local, remote } = relationColumns(node.relation);
+    const own = columns[node.relation.table] || [];
+    if (!(columns[parentTable] || []).includes(local) || !own.includes(remote) || !own.includes('_id')) return null;
+    let on = equals(`${q(alias)}.${q(remote)}`, `${q(parentAlias)}.${q(local)}`);
+    if (softDeleted.includes(node.relation.table) && own.includes('deletedAt')) on += ` AND ${q(alias)}.${q('deletedAt')} IS NULL`;
+    joins.push(`LEFT JOIN ${q(node.relation.table)} AS ${q(alias)} ON ${on}`);
+    order.push(`${q(alias)}.${q('_id')}`);
+    select.push(...own.map(c => `${q(alias)}.${q(c)} AS ${q(`${alias}.${c}`)}`));
+    const children: JoinedRelation[] = [];
+    for (const child of node.children) {
+      const joined = join(child, node.relation.table, alias);
+      if (!joined) return null;
+      children.push(joined);
+    }
+    return { alias, node, columns: own, children };
+  };
+  const joined = join(node, table, 'p');
+  if (!joined) return null;
+  const placeholders = ids.map((_, i) => dialect.placeholder(i + 1)).join(', ');
+  const sql = `SELECT ${select.join(', ')} FROM ${q(table)} AS ${q('p')} ${joins.join(' ')} WHERE ${q('p')}.${q('_id')} IN (${placeholders}) ORDER BY ${order.join(', ')}`;
+  return { sql, values: ids, joined };
+}
+
+/**
+ * Sets `row[name]` on every row from the result of `compileJoin`, nesting the deeper relations the same way.
+ * `decode` turns the columns read for a table into a row.
+ */
+export function attachJoined(rows: any[], joined: JoinedRelation, result: any[], decode: (table: string, row: any) => any): void {
+  const byParent = groupBy(result, r => r._parent);
+  for (const row of rows) {
+    const related = buildJoined(byParent.get(indexValue(row._id)) || [], joined, decode);
+    row[joined.node.name] = joined.node.relation.type === 'hasMany' ? related : related[0] ?? null;
+  }
+}
+
+function buildJoined(result: any[], joined: JoinedRelation, decode: (table: string, row: any) => any): any[] {
+  const { alias, node, columns, children } = joined;
+  return Array.from(groupBy(result, r => r[`${alias}._id`]).values(), group => {
+    const item = decode(node.relation.table, Object.fromEntries(columns.map(c => [c, group[0][`${alias}.${c}`]])));
+    for (const child of children) {
+      const related = buildJoined(group, child, decode);
+      item[child.node.name] = child.node.relation.type === 'hasMany' ? related : related[0] ?? null;
+    }
+    return item;
+  });
+}
+
+// Groups result rows by a key as text, skipping rows where it is null (no match on a LEFT JOIN)
+function groupBy(result: any[], key: (row: any) => any): Map<string, any[]> {
+  const groups = new Map<string, any[]>();
+  for (const row of result) {
+    const value = key(row);
+    if (value === null || value === undefined) continue;
+    const id = indexValue(value);
+    if (!groups.has(id)) groups.set(id, []);
+    groups.get(id)!.push(row);
+  }
+  return groups;
+}
@@ -0,0 +1,152 @@
+// database/schema.ts
+import { ColumnType, ColumnDefinition, TableSchema } from './types';
+
+const COLUMN_TYPES: ColumnType[] = ['string', 'text', 'integer', 'number', 'boolean', 'date', 'json'];
+
+export interface ColumnSpec {
+  type: ColumnType;
+  nullable: boolean;
+  default?: any;
+  primaryKey: boolean;
+}
+
+export type NormalizedSchema = Record<string, ColumnSpec>;
+
+/**
+ * How a SQL adapter spells column types and identifiers in DDL.
+ */
+export interface SchemaDialect {
+  types: Record<ColumnType, string>;
+  quote(name: string): string;
+  /** Definition for a column that is not declared in the schema, based on a sample value. */
+  untyped(name: string, sample: any): string;
+  /** Wraps a default literal when the column type only accepts expression defaults. */
+  defaultValue?(literal: string, type: ColumnType): string;
+}
+
+/**
+ * Validates a table schema and expands type shorthands into full column specs.
+ */
+export function normalizeSchema(table: string, schema: TableSchema): NormalizedSchema {
+  if (!schema || typeof schema !== 'object') throw new Error(`'${table}' tablosunun şeması bir nesne olmalıdır.`);
+  const out: NormalizedSchema = {};
+  for (const [name, definition] of Object.entries(schema)) {
+    if (name === '_id') throw new Error(`'${table}._id' sütunu otomatik oluşturulur, şemada tanımlanamaz.`);
+    const spec: ColumnDefinition = typeof definition === 'string' ? { type: definition } : definition;
+    if (!spec || !COLUMN_TYPES.includes(spec.type)) {
+      throw new Error(`'${table}.${name}' için geçersiz sütun tipi: ${spec?.type}. Desteklenenler: ${COLUMN_TYPES.join(', ')}`);
+    }
+    const primaryKey = !!spec.primaryKey;
+    out[name] = { type: spec.type, nullable: !primaryKey && spec.nullable !== false, default: spec.default, primaryKey };
+  }
+  return out;
+}
+
+function defaultLiteral(value: any): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  const text = value instanceof Date
+    ? value.toISOString().slice(0, 19).replace('T', ' ')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Renders one declared column. Columns added to an existing table only get NOT NULL
+ * when a default can fill the rows that are already there.
+ */
+export function columnSql(name: string, spec: ColumnSpec, dialect: SchemaDialect, adding: boolean = false): string {
+  let sql = `${dialect.quote(name)} ${dialect.types[spec.type]}`;
+  if (!spec.nullable && (!adding || spec.default !== undefined)) sql += ' NOT NULL';
+  if (spec.default !== undefined) {
+    const literal = defaultLiteral(spec.default);
+    sql += ` DEFAULT ${dialect.defaultValue ? dialect.defaultValue(literal, spec.type) : literal}`;
+  }
+  return sql;
+}
+
+/**
+ * Column definitions for CREATE TABLE: declared columns, then undeclared columns seen in `data`,
+ * then a UNIQUE constraint over the primary key columns (`_id` stays the row id).
+ */
+export function createColumnsSql(schema: NormalizedSchema | undefined, data: Record<string, any>, dialect: SchemaDialect): string[] {
+  const defs = Object.entries(schema || {}).map(([name, spec]) => columnSql(name, spec, dialect));
+  for (const [name, sample] of Object.entries(data || {})) {
+    if (name !== '_id' && !schema?.[name]) defs.push(dialect.untyped(name, sample));
+  }
+  const keys = Object.keys(schema || {}).filter(name => schema![name].primaryKey);
+  if (keys.length) defs.push(`UNIQUE (${keys.map(k => dialect.quote(k)).join(', ')})`);
+  return defs;
+}
+
+/**
+ * Column definitions for ALTER TABLE ... ADD COLUMN, covering declared and undeclared columns
+ * that `existing` does not have yet.
+ */
+export function missingColumnsSql(schema: NormalizedSchema | undefined, data: Record<string, any>, existing: string[], dialect: SchemaDialect): string[] {
+  const defs: string[] = [];
+  for (const [name, spec] of Object.entries(schema || {})) {
+    if (!existing.includes(name)) defs.push(columnSql(name, spec, dialect, true));
+  }
+  for (const [name, sample] of Object.entries(data || {})) {
+    if (name !== '_id' && !schema?.[name] && !existing.includes(name)) defs.push(dialect.untyped(name, sample));
+  }
+  return defs;
+}
+
+/**
+ * Converts a stored value back to its declared type.
+ */
+export function decodeValue(value: any, type: ColumnType): any {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'string':
+    case 'text':
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'integer':
+    case 'number': {
+      const n = Number(value);
+      return isNaN(n) ? value : n;
+    }
+    case 'boolean':
+      return value === true || value === 1 || value === '1' || value === 'true';
+    case 'date': {
+      if (value instanceof Date) return value;
+      // Adapters store dates as 'YYYY-MM-DD HH:MM:SS' in UTC
+      const text = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(String(value)) ? String(value).replace(' ', 'T') + 'Z' : value;
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try { return JSON.parse(value); } catch { return value; }
+  }
+}
+
+/**
+ * Decodes a row read from a text-oriented backend. Declared columns are decoded by type;
+ * undeclared columns keep the trial `JSON.parse`.
+ */
+export function decodeRow(row: Record<string, any>, schema?: NormalizedSchema): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const k in row) {
+    const spec = schema?.[k];
+    if (spec) { out[k] = decodeValue(row[k], spec.type); continue; }
+    try { out[k] = JSON.parse(row[k]); } catch { out[k] = row[k]; }
+  }
+  return out;
+}
+
+/**
+ * Prepares values of declared JSON columns for storage, so strings survive the round trip.
+ */
+export function encodeRow<T extends Record<string, any>>(row: T, schema?: NormalizedSchema): T {
+  if (!schema) return row;
+  const out: Record<string, any> = { ...row };
+  for (const k in out) {
+    if (schema[k]?.type === 'json' && out[k] !== null && out[k] !== undefined) out[k] = JSON.stringify(out[k]);
+  }
+  return out as T;
+}
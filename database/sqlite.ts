@@ -2,12 +2,40 @@ import { IDatabase } from './IDatabase';
 import sqlite3 from 'sqlite3';
 import fs from 'fs';
 import path from 'path';
-import { SQLiteConfig } from './types';
+import { SQLiteConfig, WhereClause, SelectOptions, AggregateOptions, StreamOptions, IndexOptions } from './types';
+import { compileWhere, compileAssignments, compileSelectOptions, projectRow, whereColumns, optionColumns, compileDistinct, compileAggregate, aggregateColumns, parseAggregate, normalizeAggregateRow, batchSizeOf, pathColumns, assignPaths, hasFieldOperators, jsonPathLiteral, parentsPatchLiteral, SqlDialect } from './query';
+import { createColumnsSql, missingColumnsSql, decodeRow, encodeRow, NormalizedSchema, SchemaDialect } from './schema';
+import { normalizeIndex, createIndexSql } from './indexes';
+import { compileJoin, attachJoined, includeTables, IncludeNode } from './relations';
+import { UniqueConstraintError } from './errors';
 
 export class SQLiteDatabase extends IDatabase {
   private db: sqlite3.Database;
   private _queue: Array<{ operation: () => Promise<any>; resolve: (val: any) => void; reject: (err: any) => void }> = [];
   private _isOpen: boolean = false;
+  private _dialect: SqlDialect = {
+    quote: (f) => `"${f}"`,
+    placeholder: () => '?',
+    serialize: (v) => this._serializeValue(v),
+    numeric: (col) => `CAST(${col} AS NUMERIC)`,
+    noLimit: '-1',
+    json: {
+      extract: (col, keys) => `json_extract(CASE WHEN json_valid(${col}) THEN ${col} END, ${jsonPathLiteral(keys)})`,
+      document: (col) => `CASE WHEN json_valid(${col}) THEN ${col} ELSE '{}' END`,
+      assign: (doc, keys, value) => {
+        const parents = parentsPatchLiteral(keys);
+        return `json_set(${parents ? `json_patch(${doc}, ${parents})` : doc}, ${jsonPathLiteral(keys)}, ${value})`;
+      },
+      parse: (p) => `json(${p})`,
+      number: (expr) => expr,
+    },
+  };
+
+  private _schemaDialect: SchemaDialect = {
+    types: { string: 'TEXT', text: 'TEXT', integer: 'INTEGER', number: 'REAL', boolean: 'INTEGER', date: 'TEXT', json: 'TEXT' },
+    quote: (name) => `"${name}"`,
+    untyped: (name) => `"${name}" TEXT`,
+  };
 
   constructor(config: SQLiteConfig) {
     super();
@@ -49,68 +77,90 @@ export class SQLiteDatabase extends IDatabase {
         return res;
     };
 
-    if (this._isOpen) return operation();
-    return new Promise((resolve, reject) => {
-      this._queue.push({ operation, resolve, reject });
+    return this.guard(() => {
+      if (this._isOpen) return operation();
+      return new Promise((resolve, reject) => {
+        this._queue.push({ operation, resolve, reject });
+      });
     });
   }
 
   async query(sql: string, params: any[] = []): Promise<any> {
+    const mapError = (err: any) => this._mapError(err);
     return new Promise((resolve, reject) => {
       const s = sql.trim().toUpperCase();
       if (s.startsWith('SELECT') || s.startsWith('PRAGMA')) {
-        this.db.all(sql, params, (err, rows) => err ? reject(err) : resolve(rows));
+        this.db.all(sql, params, (err, rows) => err ? reject(mapError(err)) : resolve(rows));
       } else {
-        this.db.run(sql, params, function (err) { err ? reject(err) : resolve({ changes: this.changes, lastID: this.lastID }); });
+        this.db.run(sql, params, function (err) { err ? reject(mapError(err)) : resolve({ changes: this.changes, lastID: this.lastID }); });
       }
     });
   }
 
   async ensureTable(table: string, data: any = {}): Promise<void> {
+    const schema = this.schemas[table];
     try {
       await this.query(`SELECT 1 FROM "${table}" LIMIT 1`);
       const info: any[] = await this.query(`PRAGMA table_info("${table}")`);
       const names = info.map(c => c.name);
-      for (const key of Object.keys(data)) {
-        if (key !== '_id' && !names.includes(key)) {
-          await this.query(`ALTER TABLE "${table}" ADD COLUMN "${key}" TEXT`);
-        }
+      for (const def of missingColumnsSql(schema, data, names, this._schemaDialect)) {
+        await this.query(`ALTER TABLE "${table}" ADD COLUMN ${def}`);
       }
     } catch {
-      const defs = Object.keys(data).map(k => `"${k}" TEXT`);
+      const defs = createColumnsSql(schema, data, this._schemaDialect);
       await this.query(`CREATE TABLE "${table}" (_id INTEGER PRIMARY KEY AUTOINCREMENT ${defs.length ? ', ' + defs.join(',') : ''})`);
     }
   }
 
   async insert(table: string, data: any): Promise<number> {
-    await this.runHooks('beforeInsert', table, data);
+    this.validate(table, data);
     return this._execute('insert', table, async () => {
       await this.ensureTable(table, data);
       const keys = Object.keys(data);
       const sql = `INSERT INTO "${table}" (${keys.map(k => `"${k}"`).join(',')}) VALUES (${keys.map(() => '?').join(',')})`;
-      const res = await this.query(sql, Object.values(data).map(v => typeof v === 'object' ? JSON.stringify(v) : v));
-      const finalData = { _id: res.lastID, ...data };
-      await this.runHooks('afterInsert', table, finalData);
+      const res = await this.query(sql, this._rowValues(keys, data, this.schemas[table]));
       return res.lastID;
     });
   }
 
   async update(table: string, data: any, where: any): Promise<number> {
-    await this.runHooks('beforeUpdate', table, { data, where });
+    this.validate(table, data, true);
+    if (hasFieldOperators(data)) return this._updateInPlace(table, data, where);
     return this._execute('update', table, async () => {
-      await this.ensureTable(table, { ...data, ...where });
-      const set = Object.keys(data).map(k => `"${k}" = ?`).join(',');
+      await this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) });
+      const { set, values } = compileAssignments(encodeRow(data, this.schemas[table]), this._dialect);
       const { whereClause, values: whereValues } = this._buildWhereClause(where);
       const sql = `UPDATE "${table}" SET ${set} ${whereClause}`;
-      const res = await this.query(sql, [...Object.values(data).map(v => typeof v === 'object' ? JSON.stringify(v) : v), ...whereValues]);
+      const res = await this.query(sql, [...values, ...whereValues]);
       return res.changes;
     });
   }
 
+  /**
+   * Runs updates that depend on the current value of a field (`push`, `pull`, ...): the rows are read,
+   * changed in memory and written back inside one transaction, which keeps other writers out meanwhile.
+   */
+  private async _updateInPlace(table: string, data: any, where: any): Promise<number> {
+    await this._execute('update', table, () => this.ensureTable(table, { ...pathColumns(data), ...whereColumns(where) }));
+    return this.transaction(tx => (tx as unknown as SQLiteDatabase)._rewriteRows(table, data, where));
+  }
+
+  private async _rewriteRows(table: string, data: any, where: any): Promise<number> {
+    const { whereClause, values } = this._buildWhereClause(where);
+    const rows = await this.query(`SELECT * FROM "${table}" ${whereClause}`, values);
+    const columns = Object.keys(pathColumns(data));
+    for (const row of rows) {
+      const updated = assignPaths(this._decodeRow(table, row), data);
+      const changes = Object.fromEntries(columns.map(c => [c, updated[c] ?? null]));
+      const { set, values: setValues } = compileAssignments(encodeRow(changes, this.schemas[table]), this._dialect);
+      await this.query(`UPDATE "${table}" SET ${set} WHERE "_id" = ?`, [...setValues, row._id]);
+    }
+    return rows.length;
+  }
+
   async delete(table: string, where: any): Promise<number> {
-    await this.runHooks('beforeDelete', table, where);
     return this._execute('delete', table, async () => {
-      await this.ensureTable(table, where);
+      await this.ensureTable(table, whereColumns(where));
       const { whereClause, values } = this._buildWhereClause(where);
       const sql = `DELETE FROM "${table}" ${whereClause}`;
       const res = await this.query(sql, values);
@@ -118,39 +168,136 @@ export class SQLiteDatabase extends IDatabase {
     });
   }
 
-  async select<T = any>(table: string, where: any = null): Promise<T[]> {
+  async select<T = any>(table: string, where: any = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
     return this._execute('select', table, async () => {
-      await this.ensureTable(table, where || {});
+      await this.ensureTable(table, { ...whereColumns(where), ...optionColumns(options) });
       const { whereClause, values } = this._buildWhereClause(where);
-      const rows = await this.query(`SELECT * FROM "${table}" ${whereClause}`, values);
-      return rows.map((r: any) => {
-        const nr: any = {};
-        for (const k in r) { try { nr[k] = JSON.parse(r[k]); } catch { nr[k] = r[k]; } }
-        return nr as T;
+      const { columns, suffix } = compileSelectOptions(options, this._dialect);
+      const rows = await this.query(`SELECT ${columns} FROM "${table}" ${whereClause}${suffix}`, values);
+      return rows.map((r: any) => projectRow<T>(this._decodeRow(table, r), options.fields));
+    });
+  }
+
+  /**
+   * Loads a relation and its nested relations with LEFT JOINs from the selected rows, in one query.
+   * Relations keyed on dot-paths or on columns that don't exist yet are loaded with `$in` instead.
+   */
+  protected override async loadRelation(table: string, rows: any[], node: IncludeNode): Promise<void> {
+    if (!rows.length) return;
+    const tables = Array.from(new Set([table, ...includeTables(node)]));
+    const join = await this._execute('select', table, async () => {
+      const columns: Record<string, string[]> = {};
+      for (const t of tables) columns[t] = (await this.query(`PRAGMA table_info("${t}")`)).map((c: any) => c.name);
+      const softDeleted = tables.filter(t => this.tables[t]?.softDelete);
+      const compiled = compileJoin(table, node, rows.map(r => r._id), this._dialect, columns, softDeleted);
+      return compiled && { joined: compiled.joined, result: await this.query(compiled.sql, compiled.values) };
+    });
+    if (!join) return super.loadRelation(table, rows, node);
+    attachJoined(rows, join.joined, join.result, (t, row) => this._decodeRow(t, row));
+  }
+
+  async *stream<T = any>(table: string, where: any = null, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    const stmt = await this._execute('stream', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      return new Promise<sqlite3.Statement>((resolve, reject) => {
+        const s = this.db.prepare(`SELECT * FROM "${table}" ${whereClause}`, values, (err) => err ? reject(err) : resolve(s));
       });
     });
+    try {
+      while (true) {
+        const batch = await this.guard(() => this._nextRows(stmt, batchSize));
+        for (const row of batch) yield this._decodeRow(table, row) as T;
+        if (batch.length < batchSize) return;
+      }
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Steps a prepared statement row by row, up to `count` rows.
+   */
+  private async _nextRows(stmt: sqlite3.Statement, count: number): Promise<any[]> {
+    const rows: any[] = [];
+    while (rows.length < count) {
+      const row = await new Promise<any>((resolve, reject) => stmt.get((err, r) => err ? reject(err) : resolve(r)));
+      if (row === undefined) break;
+      rows.push(row);
+    }
+    return rows;
   }
 
   async selectOne<T = any>(table: string, where: any = null): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
+  async count(table: string, where: any = null): Promise<number> {
+    return this._execute('count', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT COUNT(*) AS count FROM "${table}" ${whereClause}`, values);
+      return Number(rows[0].count);
+    });
+  }
+
+  async exists(table: string, where: any = null): Promise<boolean> {
+    return this._execute('exists', table, async () => {
+      await this.ensureTable(table, whereColumns(where));
+      const { whereClause, values } = this._buildWhereClause(where);
+      const rows = await this.query(`SELECT 1 FROM "${table}" ${whereClause} LIMIT 1`, values);
+      return rows.length > 0;
+    });
+  }
+
+  async distinct<T = any>(table: string, field: string, where: any = null): Promise<T[]> {
+    return this._execute('distinct', table, async () => {
+      await this.ensureTable(table, { ...whereColumns(where), ...pathColumns({ [field]: null }) });
+      const { sql, values } = compileDistinct(`"${table}"`, field, where, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => this._decodeRow(table, r)[field]);
+    });
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute('aggregate', table, async () => {
+      const { groupBy, metrics } = parseAggregate(options);
+      await this.ensureTable(table, aggregateColumns(options));
+      const { sql, values } = compileAggregate(`"${table}"`, options, this._dialect);
+      const rows = await this.query(sql, values);
+      return rows.map((r: any) => {
+        const decoded = this._decodeRow(table, r);
+        for (const f of groupBy) r[f] = decoded[f];
+        return normalizeAggregateRow(r, metrics);
+      });
+    });
+  }
+
   async set(table: string, data: any, where: any): Promise<any> {
     const ex = await this.selectOne(table, where);
     return ex ? this.update(table, data, where) : this.insert(table, { ...where, ...data });
   }
 
   async bulkInsert(table: string, dataArray: any[]): Promise<number> {
+    this.validate(table, dataArray);
     if (!dataArray.length) return 0;
     return this._execute('bulkInsert', table, async () => {
       await this.ensureTable(table, dataArray[0]);
+      const keys = Object.keys(dataArray[0]);
+      const schema = this.schemas[table];
+      const sql = `INSERT INTO "${table}" (${keys.map(k => `"${k}"`).join(',')}) VALUES (${keys.map(() => '?').join(',')})`;
+      // Inside db.transaction the rows already belong to the outer transaction
+      if (this.inTransaction) {
+        for (const d of dataArray) await this.query(sql, this._rowValues(keys, d, schema));
+        return dataArray.length;
+      }
       await this.query('BEGIN TRANSACTION');
       try {
-        const keys = Object.keys(dataArray[0]);
-        const sql = `INSERT INTO "${table}" (${keys.map(k => `"${k}"`).join(',')}) VALUES (${keys.map(() => '?').join(',')})`;
         for (const d of dataArray) {
-          await this.query(sql, Object.values(d).map(v => typeof v === 'object' ? JSON.stringify(v) : v));
+          await this.query(sql, this._rowValues(keys, d, schema));
         }
         await this.query('COMMIT');
         return dataArray.length;
@@ -161,13 +308,29 @@ export class SQLiteDatabase extends IDatabase {
     });
   }
 
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let unlock: (() => void) | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        // Wait for the connection to open, then keep other callers off it until the transaction ends
+        await this._execute('transaction', '', async () => {});
+        unlock = await this.lockExclusive();
+        await this.query('BEGIN IMMEDIATE TRANSACTION');
+        return {};
+      },
+      commit: async () => { await this.query('COMMIT'); },
+      rollback: async () => { await this.query('ROLLBACK'); },
+      release: () => unlock?.(),
+    });
+  }
+
   async increment(table: string, incs: any, where: any): Promise<number> {
     return this._execute('increment', table, async () => {
-      await this.ensureTable(table, where);
-      const set = Object.keys(incs).map(f => `"${f}" = CAST("${f}" AS NUMERIC) + ?`);
+      await this.ensureTable(table, { ...pathColumns(incs), ...whereColumns(where) });
+      const { set, values: setValues } = compileAssignments(incs, this._dialect, true);
       const { whereClause, values } = this._buildWhereClause(where);
       const sql = `UPDATE "${table}" SET ${set} ${whereClause}`;
-      const res = await this.query(sql, [...Object.values(incs), ...values]);
+      const res = await this.query(sql, [...setValues, ...values]);
       return res.changes;
     });
   }
@@ -178,7 +341,17 @@ export class SQLiteDatabase extends IDatabase {
     return this.increment(table, incs, where);
   }
 
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute('createIndex', table, async () => {
+      await this.ensureTable(table, Object.fromEntries(index.fields.map(f => [f, null])));
+      await this.query(createIndexSql(table, index, this._dialect.quote));
+      this.registerIndex(table, index);
+    });
+  }
+
   async close(): Promise<void> { 
+      await this.closeWatchers();
       return new Promise((resolve, reject) => {
           this.db.close(err => {
              this._isOpen = false;
@@ -187,20 +360,33 @@ export class SQLiteDatabase extends IDatabase {
       }); 
   }
 
+  /**
+   * Turns "UNIQUE constraint failed: table.a, table.b" into a `UniqueConstraintError`.
+   */
+  private _mapError(err: any): any {
+    const match = /UNIQUE constraint failed: (.+)$/.exec(err?.message || '');
+    if (!match) return err;
+    const columns = match[1].split(', ').map(c => c.trim());
+    const table = columns[0].slice(0, columns[0].lastIndexOf('.'));
+    return new UniqueConstraintError(table, columns.map(c => c.slice(c.lastIndexOf('.') + 1)));
+  }
+
+  private _decodeRow(table: string, r: any): any {
+    return decodeRow(r, this.schemas[table]);
+  }
+
+  private _rowValues(keys: string[], row: any, schema?: NormalizedSchema): any[] {
+    const encoded = encodeRow(row, schema);
+    return keys.map(k => this._serializeValue(encoded[k]));
+  }
+
   private _serializeValue(v: any): any {
     if (v instanceof Date) return v.toISOString().slice(0, 19).replace('T', ' ');
     return (typeof v === 'object' && v !== null) ? JSON.stringify(v) : v;
   }
 
-  private _buildWhereClause(where: Record<string, any> | null): { whereClause: string; values: any[] } {
-    if (!where) return { whereClause: '', values: [] };
-    const safeWhere = where as Record<string, any>;
-    const keys = Object.keys(safeWhere);
-    if (!keys.length) return { whereClause: '', values: [] };
-    return {
-      whereClause: 'WHERE ' + keys.map(k => `"${k}" = ?`).join(' AND '),
-      values: keys.map(k => this._serializeValue(safeWhere[k]))
-    };
+  private _buildWhereClause(where: WhereClause | null): { whereClause: string; values: any[] } {
+    return compileWhere(where, this._dialect);
   }
 }
 
@@ -0,0 +1,138 @@
+// database/tableOptions.ts
+import type { IDatabase } from './IDatabase';
+import { TableOptions, UpdateOptions, WhereClause } from './types';
+import { interceptMethods } from './intercept';
+import { INCREMENT } from './query';
+import { ConcurrencyError } from './errors';
+
+/**
+ * Marks a where clause that should also match soft-deleted rows. Symbol keys are skipped by every
+ * where compiler, but survive the spreads adapters make before calling back into the database.
+ */
+const WITH_DELETED = Symbol('withDeleted');
+
+export function withDeleted(where: WhereClause | null | undefined): WhereClause {
+  return Object.assign({ ...(where || {}) }, { [WITH_DELETED]: true });
+}
+
+/**
+ * Adds the "not soft-deleted" condition to a where clause. Clauses that filter on `deletedAt`
+ * themselves, or are marked with `withDeleted`, are left alone.
+ */
+export function scopeDeleted(where: WhereClause | null | undefined): WhereClause {
+  if (where && ((where as any)[WITH_DELETED] || 'deletedAt' in where)) return where;
+  const live = { deletedAt: { $exists: false } };
+  return where && Object.keys(where).length ? { $and: [where, live] } : live;
+}
+
+/**
+ * Fills in `createdAt` / `updatedAt` for a new row, keeping values the caller already set.
+ */
+export function stampInsert(row: Record<string, any>, now: Date = new Date()): Record<string, any> {
+  return { ...row, createdAt: row.createdAt ?? now, updatedAt: row.updatedAt ?? now };
+}
+
+/**
+ * Adds what a table's options maintain to a new row.
+ */
+function stampNew(o: TableOptions, row: Record<string, any>, now: Date): Record<string, any> {
+  const stamped = o.timestamps ? stampInsert(row, now) : row;
+  return o.versioned ? { ...stamped, _version: stamped._version ?? 1 } : stamped;
+}
+
+/**
+ * Fills in `updatedAt` for an update, keeping a value the caller already set.
+ */
+export function stampUpdate(data: Record<string, any>, now: Date = new Date()): Record<string, any> {
+  return { ...data, updatedAt: data.updatedAt ?? now };
+}
+
+/**
+ * Adds the `_version` bump to an update.
+ */
+function bumpVersion(data: Record<string, any>): Record<string, any> {
+  return { ...data, [INCREMENT]: { ...(data[INCREMENT] || {}), _version: 1 } };
+}
+
+/**
+ * Narrows a where clause to rows at the given version, keeping the `withDeleted` mark.
+ */
+function atVersion(where: WhereClause | null | undefined, version: number): WhereClause {
+  if (!where || !('_version' in where)) return { ...(where || {}), _version: version };
+  return { ...where, $and: [...(where.$and || []), { _version: version }] };
+}
+
+const notVersioned = (table: string) => new Error(`'${table}' tablosu için versioned etkin değil, expectedVersion kullanılamaz.`);
+
+type Behavior = (db: any, raw: (...args: any[]) => any, options: TableOptions, table: string, args: any[]) => any;
+
+const behaviors = new Map<string, Behavior>(Object.entries({
+  select: (db, raw, o, table, [where, options = {}]) => {
+    const { withDeleted: all, ...rest } = options;
+    return raw.call(db, table, o.softDelete && !all ? scopeDeleted(where) : where, rest);
+  },
+  selectOne: (db, raw, o, table, [where, ...rest]) => raw.call(db, table, o.softDelete ? scopeDeleted(where) : where, ...rest),
+  stream: (db, raw, o, table, [where, options]) => raw.call(db, table, o.softDelete ? scopeDeleted(where) : where, options),
+  count: (db, raw, o, table, [where]) => raw.call(db, table, o.softDelete ? scopeDeleted(where) : where),
+  exists: (db, raw, o, table, [where]) => raw.call(db, table, o.softDelete ? scopeDeleted(where) : where),
+  distinct: (db, raw, o, table, [field, where]) => raw.call(db, table, field, o.softDelete ? scopeDeleted(where) : where),
+  aggregate: (db, raw, o, table, [options]) =>
+    raw.call(db, table, o.softDelete ? { ...options, where: scopeDeleted(options.where) } : options),
+  insert: (db, raw, o, table, [data]) => raw.call(db, table, stampNew(o, data, new Date())),
+  bulkInsert: (db, raw, o, table, [rows]) => {
+    const now = new Date();
+    return raw.call(db, table, rows.map((row: Record<string, any>) => stampNew(o, row, now)));
+  },
+  // The version check is part of the write's own where clause, so each adapter applies it atomically
+  update: async (db, raw, o, table, [data, where, options = {}]) => {
+    const { expectedVersion }: UpdateOptions = options;
+    if (expectedVersion !== undefined && !o.versioned) throw notVersioned(table);
+    let changes = o.timestamps ? stampUpdate(data) : data;
+    if (o.versioned) changes = bumpVersion(changes);
+    const scoped = o.softDelete ? scopeDeleted(where) : where;
+    if (expectedVersion === undefined) return raw.call(db, table, changes, scoped);
+    const affected = await raw.call(db, table, changes, atVersion(scoped, expectedVersion));
+    if (!affected) {
+      const current = await db.selectOne(table, scoped);
+      if (current) throw new ConcurrencyError(table, expectedVersion, current._version ?? null);
+    }
+    return affected;
+  },
+  // Whether `set` inserts or updates decides which timestamps it writes, so it is resolved here for every adapter
+  set: async (db, raw, o, table, [data, where, options = {}]) => {
+    const existing = await db.selectOne(table, where);
+    if (existing) return db.update(table, data, where, options);
+    if (options.expectedVersion !== undefined) {
+      if (!o.versioned) throw notVersioned(table);
+      throw new ConcurrencyError(table, options.expectedVersion, null);
+    }
+    return db.insert(table, { ...where, ...data });
+  },
+  delete: (db, raw, o, table, [where]) => {
+    if (!o.softDelete || (where as any)?.[WITH_DELETED]) return raw.call(db, table, where);
+    return db.update(table, { deletedAt: new Date() }, where);
+  },
+  // Run as an update carrying the increments, so `updatedAt` and `_version` change in the same write
+  increment: (db, raw, o, table, [increments, where]) => {
+    if (o.timestamps || o.versioned) return db.update(table, { [INCREMENT]: increments }, where);
+    return raw.call(db, table, increments, o.softDelete ? scopeDeleted(where) : where);
+  },
+} as Record<string, Behavior>));
+
+/**
+ * Wraps an adapter so tables registered with `defineTable` get their timestamps and soft-delete scoping
+ * on every read and write, whichever adapter runs them. `IDatabase` applies it to each instance, so calls
+ * an adapter makes on itself and calls made through transaction scopes pass through it too.
+ */
+export function applyTableOptions<T extends IDatabase>(db: T): T {
+  return interceptMethods(db, (name, method) => {
+    const behavior = behaviors.get(name);
+    if (!behavior) return undefined;
+    return function (this: any, table: string, ...args: any[]) {
+      const options: TableOptions | undefined = this.tables[table];
+      if (options) return behavior(this, method as any, options, table, args);
+      if ((name === 'update' || name === 'set') && args[2]?.expectedVersion !== undefined) return Promise.reject(notVersioned(table));
+      return method.call(this, table, ...args);
+    };
+  });
+}
@@ -11,11 +11,15 @@ export interface CacheMetrics {
   hits: number;
   misses: number;
   keys: number;
+  /** Reads that waited for an identical read already in flight instead of querying again. */
+  coalesced: number;
+  /** Reads answered with an expired entry, while revalidating or because the refresh failed. */
+  stale: number;
 }
 
 class TelemetrySystem {
   private dbMetrics: DatabaseMetrics[] = [];
-  private cacheStats = { hits: 0, misses: 0 };
+  private cacheStats = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
   private maxLogs = 1000;
 
   recordDb(metric: DatabaseMetrics) {
@@ -25,6 +29,8 @@ class TelemetrySystem {
 
   recordCacheHit() { this.cacheStats.hits++; }
   recordCacheMiss() { this.cacheStats.misses++; }
+  recordCacheCoalesced() { this.cacheStats.coalesced++; }
+  recordCacheStale() { this.cacheStats.stale++; }
 
   getMetrics() {
     const totalOps = this.dbMetrics.length;
@@ -48,7 +54,7 @@ class TelemetrySystem {
 
   clear() {
     this.dbMetrics = [];
-    this.cacheStats = { hits: 0, misses: 0 };
+    this.cacheStats = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
   }
 }
 
@@ -3,7 +3,12 @@ import fs from 'fs/promises';
 import { writeFileSync, existsSync } from 'fs';
 import path from 'path';
 import { stringify, parse } from '../functions/toon';
-import { ToonConfig } from './types';
+import { ToonConfig, SelectOptions, AggregateOptions, StreamOptions, IndexOptions } from './types';
+import { matchesWhere, queryRows, distinctValues, aggregateRows, batchSizeOf, assignPaths, incrementPaths } from './query';
+import { normalizeIndex, IndexDefinition, MemoryIndex } from './indexes';
+
+/** Top-level key of the file that holds the index definitions rather than a table. */
+const INDEXES_KEY = '__indexes';
 
 export class ToonDatabase extends IDatabase {
   private filePath: string;
@@ -14,6 +19,8 @@ export class ToonDatabase extends IDatabase {
   private saveDebounceTimeout: NodeJS.Timeout | null = null;
   private saveInterval: number;
   private initPromise: Promise<void>;
+  private txSnapshot: Record<string, any[]> | null = null;
+  private memoryIndexes: Record<string, MemoryIndex> = {};
 
   constructor(config: ToonConfig) {
     super();
@@ -25,10 +32,12 @@ export class ToonDatabase extends IDatabase {
   }
 
   private async _execute<T>(op: string, table: string, fn: () => T): Promise<T> {
-    const start = Date.now();
-    const res = await fn();
-    this.recordMetric(op, table, Date.now() - start);
-    return res;
+    return this.guard(async () => {
+      const start = Date.now();
+      const res = await fn();
+      this.recordMetric(op, table, Date.now() - start);
+      return res;
+    });
   }
 
   private async _load(): Promise<void> {
@@ -48,8 +57,12 @@ export class ToonDatabase extends IDatabase {
       } else {
         this.db = {};
         for (const [key, value] of Object.entries(parsed)) {
+          if (key === INDEXES_KEY) continue;
           this.db[key] = Array.isArray(value) ? value : [];
         }
+        for (const [table, list] of Object.entries<IndexDefinition[]>((parsed as any)[INDEXES_KEY] || {})) {
+          for (const index of list) this.registerIndex(table, index);
+        }
       }
     } catch (error) {
       console.error("ToonDB load error:", error);
@@ -89,6 +102,8 @@ export class ToonDatabase extends IDatabase {
   }
 
   private _scheduleSave(): void {
+    // Uncommitted transaction data is never written; the save is scheduled once it ends
+    if (this.txSnapshot) return;
     if (this.saveDebounceTimeout) clearTimeout(this.saveDebounceTimeout);
     this.saveDebounceTimeout = setTimeout(() => this._saveNow(), this.saveInterval);
   }
@@ -98,7 +113,7 @@ export class ToonDatabase extends IDatabase {
     if (this.saveDebounceTimeout) clearTimeout(this.saveDebounceTimeout);
     this.saveDebounceTimeout = null;
     try {
-      await fs.writeFile(this.filePath, stringify(this.db));
+      await fs.writeFile(this.filePath, this._serialize());
       this.isDirty = false;
     } catch (error) {
       console.error("ToonDB save error:", error);
@@ -108,12 +123,34 @@ export class ToonDatabase extends IDatabase {
   private flushSync(): void {
     if (this.isDirty) {
       try {
-        writeFileSync(this.filePath, stringify(this.db));
+        writeFileSync(this.filePath, this._serialize());
         this.isDirty = false;
       } catch (error) { }
     }
   }
 
+  /**
+   * File contents: the tables, plus the index definitions under `__indexes` once there are any.
+   */
+  private _serialize(): string {
+    return stringify(Object.keys(this.indexes).length ? { ...this.db, [INDEXES_KEY]: this.indexes } : this.db);
+  }
+
+  /**
+   * In-memory index of a table, built on first use; null when the table has no indexes.
+   */
+  private _index(table: string): MemoryIndex | null {
+    if (!this.indexes[table]?.length) return null;
+    return this.memoryIndexes[table] ??= new MemoryIndex(table, this.indexes[table], this._getTable(table));
+  }
+
+  /**
+   * Rows of a table that may match `where`: an index lookup when one applies, otherwise the whole table.
+   */
+  private _rows(table: string, where: Record<string, any> | null): any[] {
+    return this._index(table)?.candidates(where) ?? this._getTable(table);
+  }
+
   async ensureTable(table: string): Promise<void> {
     await this.initPromise;
     if (!Array.isArray(this.db[table])) {
@@ -124,7 +161,7 @@ export class ToonDatabase extends IDatabase {
   }
 
   async insert(table: string, data: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeInsert', table, data);
+    this.validate(table, data);
     return this._execute('insert', table, async () => {
       await this.ensureTable(table);
       return this._queueRequest(() => {
@@ -132,65 +169,99 @@ export class ToonDatabase extends IDatabase {
         const maxId = tableData.reduce((max, row) => (row._id > max ? row._id : max), 0);
         const newId = maxId + 1;
         const newRow = { _id: newId, ...data };
+        this._index(table)?.check([newRow]);
         this.db[table].push(newRow);
-        this.runHooks('afterInsert', table, newRow);
+        this._index(table)?.add([newRow]);
         return newId;
       });
     });
   }
 
   async update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeUpdate', table, { data, where });
+    this.validate(table, data, true);
     return this._execute('update', table, async () => {
       await this.ensureTable(table);
       return this._queueRequest(() => {
-        let affected = 0;
-        const tableData = this._getTable(table);
-        tableData.forEach(row => {
-          if (Object.keys(where).every(k => String(row[k]) === String(where[k]))) {
-            Object.assign(row, data);
-            affected++;
-          }
-        });
-        this.runHooks('afterUpdate', table, { affected });
+        const affected = this._rewrite(table, where, row => assignPaths(row, data));
         return affected;
       });
     });
   }
 
   async delete(table: string, where: Record<string, any>): Promise<number> {
-    await this.runHooks('beforeDelete', table, where);
     return this._execute('delete', table, async () => {
       await this.ensureTable(table);
       return this._queueRequest(() => {
-        const tableData = this._getTable(table);
-        const initial = tableData.length;
-        this.db[table] = tableData.filter(row =>
-          !Object.keys(where).every(k => String(row[k]) === String(where[k]))
-        );
-        const affected = initial - this.db[table].length;
-        this.runHooks('afterDelete', table, { affected });
-        return affected;
+        const removed: any[] = [];
+        this.db[table] = this._getTable(table).filter(row => {
+          if (!matchesWhere(row, where)) return true;
+          removed.push(row);
+          return false;
+        });
+        this._index(table)?.remove(removed);
+        return removed.length;
       });
     });
   }
 
-  async select<T = any>(table: string, where: Record<string, any> | null = null): Promise<T[]> {
+  async select<T = any>(table: string, where: Record<string, any> | null = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
     return this._execute('select', table, async () => {
       await this.initPromise;
-      const tableData = this._getTable(table);
-      const results = where && Object.keys(where).length > 0
-        ? tableData.filter(row => Object.keys(where).every(k => String(row[k]) === String(where[k])))
-        : tableData;
+      const results = queryRows(this._rows(table, where), where, options);
       return JSON.parse(JSON.stringify(results)) as T[];
     });
   }
 
+  async *stream<T = any>(table: string, where: Record<string, any> | null = null, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    // The snapshot is taken like any other read, so an open transaction's writes stay out of it
+    const rows = await this._execute('stream', table, async () => {
+      await this.initPromise;
+      return this._rows(table, where).slice();
+    });
+    for (let i = 0; i < rows.length; i += batchSize) {
+      const batch = rows.slice(i, i + batchSize).filter(row => matchesWhere(row, where));
+      yield* JSON.parse(JSON.stringify(batch)) as T[];
+    }
+  }
+
   async selectOne<T = any>(table: string, where: Record<string, any> | null = null): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
+  async count(table: string, where: Record<string, any> | null = null): Promise<number> {
+    return this._execute('count', table, async () => {
+      await this.initPromise;
+      const rows = this._rows(table, where);
+      if (!where || !Object.keys(where).length) return rows.length;
+      return rows.reduce((n, row) => matchesWhere(row, where) ? n + 1 : n, 0);
+    });
+  }
+
+  async exists(table: string, where: Record<string, any> | null = null): Promise<boolean> {
+    return this._execute('exists', table, async () => {
+      await this.initPromise;
+      return this._rows(table, where).some(row => matchesWhere(row, where));
+    });
+  }
+
+  async distinct<T = any>(table: string, field: string, where: Record<string, any> | null = null): Promise<T[]> {
+    return this._execute('distinct', table, async () => {
+      await this.initPromise;
+      const values = distinctValues<T>(this._rows(table, where).filter(row => matchesWhere(row, where)), field);
+      return JSON.parse(JSON.stringify(values)) as T[];
+    });
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute('aggregate', table, async () => {
+      await this.initPromise;
+      return JSON.parse(JSON.stringify(aggregateRows(this._getTable(table), options)));
+    });
+  }
+
   async set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any> {
     await this.initPromise;
     await this.ensureTable(table);
@@ -206,16 +277,17 @@ export class ToonDatabase extends IDatabase {
   }
 
   async bulkInsert(table: string, dataArray: Record<string, any>[]): Promise<number> {
+    this.validate(table, dataArray);
     return this._execute('bulkInsert', table, async () => {
       if (!dataArray.length) return 0;
       await this.ensureTable(table);
       return this._queueRequest(() => {
         const tableData = this._getTable(table);
         let maxId = tableData.reduce((max, row) => (row._id > max ? row._id : max), 0);
-        dataArray.forEach(data => {
-          maxId++;
-          this.db[table].push({ _id: maxId, ...data });
-        });
+        const rows = dataArray.map(data => ({ _id: ++maxId, ...data }));
+        this._index(table)?.check(rows);
+        this.db[table].push(...rows);
+        this._index(table)?.add(rows);
         return dataArray.length;
       });
     });
@@ -224,17 +296,7 @@ export class ToonDatabase extends IDatabase {
   async increment(table: string, incs: Record<string, number>, where: Record<string, any> = {}): Promise<number> {
     return this._execute('increment', table, async () => {
       await this.ensureTable(table);
-      return this._queueRequest(() => {
-        let affected = 0;
-        const tableData = this._getTable(table);
-        tableData.forEach(row => {
-          if (Object.keys(where).every(k => String(row[k]) === String(where[k]))) {
-            for (const [f, v] of Object.entries(incs)) row[f] = (Number(row[f]) || 0) + v;
-            affected++;
-          }
-        });
-        return affected;
-      });
+      return this._queueRequest(() => this._rewrite(table, where, row => incrementPaths(row, incs)));
     });
   }
 
@@ -244,7 +306,64 @@ export class ToonDatabase extends IDatabase {
     return this.increment(table, incs, where);
   }
 
-  async close(): Promise<void> { await this._saveNow(); }
+  /**
+   * Builds the in-memory index right away, so existing rows that break a unique index are rejected.
+   * The definition is saved with the data and restored when the file is loaded.
+   */
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute('createIndex', table, async () => {
+      await this.ensureTable(table);
+      return this._queueRequest(() => {
+        const indexes = [...(this.indexes[table] || []).filter(i => i.name !== index.name), index];
+        this.memoryIndexes[table] = new MemoryIndex(table, indexes, this._getTable(table));
+        this.registerIndex(table, index);
+      });
+    });
+  }
+
+  /**
+   * Applies `change` to copies of the matching rows and swaps them in only if the unique indexes still hold.
+   */
+  private _rewrite(table: string, where: Record<string, any>, change: (row: any) => any): number {
+    const before: any[] = [], after: any[] = [];
+    const rows = this._getTable(table).map(row => {
+      if (!matchesWhere(row, where)) return row;
+      before.push(row);
+      after.push(change({ ...row }));
+      return after[after.length - 1];
+    });
+    const index = this._index(table);
+    index?.check(after, before);
+    this.db[table] = rows;
+    index?.remove(before);
+    index?.add(after);
+    return after.length;
+  }
+
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    let unlock: (() => void) | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        await this.initPromise;
+        unlock = await this.lockExclusive();
+        this.txSnapshot = JSON.parse(JSON.stringify(this.db));
+        return {};
+      },
+      commit: async () => {},
+      rollback: async () => { this.db = this.txSnapshot!; this.memoryIndexes = {}; },
+      release: () => {
+        this.txSnapshot = null;
+        if (this.isDirty) this._scheduleSave();
+        unlock?.();
+      },
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.closeWatchers();
+    await this._saveNow();
+  }
 }
 
 export default ToonDatabase;
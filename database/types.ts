@@ -1,5 +1,20 @@
+import type { ValidationSchema } from '../functions/index';
+
 export interface BaseConfig {
   cache?: CacheConfig;
+  /** Table schemas registered on creation, see `defineSchema`. */
+  schemas?: Record<string, TableSchema>;
+  /** Validation schemas registered on creation, see `defineValidation`. */
+  validation?: Record<string, ValidationSchema>;
+  /** Relations registered on creation, per table and relation name, see `defineRelation`. */
+  relations?: Record<string, Record<string, RelationDefinition>>;
+  /** Per-table behaviour registered on creation, see `defineTable`. */
+  tables?: Record<string, TableOptions>;
+  /**
+   * Publish change events for every write, even without a local `watch`, so watchers in other
+   * processes see them (PostgreSQL and Redis; MongoDB uses change streams instead).
+   */
+  publishChanges?: boolean;
 }
 
 export interface NetworkConfig extends BaseConfig {
@@ -38,13 +53,132 @@ export interface ToonConfig extends FileConfig {
   saveInterval?: number;
 }
 
+export interface CachePolicy {
+  /** How long (ms) an entry stays fresh. */
+  ttl?: number;
+  /** Most entries kept in memory for the table. */
+  max?: number;
+  /** `false` reads the table straight from the database. */
+  enabled?: boolean;
+  /** Overrides `negativeTtl` for the table; `0` turns it off. */
+  negativeTtl?: number;
+}
+
 export interface CacheConfig {
   type: 'memory' | 'redis';
+  /** How long (ms) an entry stays fresh, for both cache types (default 5 minutes). */
   ttl?: number;
+  /** Most entries kept in memory per table (default 500). */
   max?: number;
+  /** Policies overriding `ttl` / `max` per table, or turning its cache off. */
+  tables?: Record<string, CachePolicy>;
+  /** Also caches `selectOne` lookups that found nothing, for this many ms (off by default; keep it short). */
+  negativeTtl?: number;
   host?: string;
   port?: number;
   password?: string;
+  /** How long (ms) after `ttl` an expired entry is still served while it is refreshed in the background. */
+  staleWhileRevalidate?: number;
+  /** How long (ms) after `ttl` an expired entry is served when refreshing it fails. */
+  staleIfError?: number;
+  /**
+   * Shares invalidations between processes so their memory caches stay coherent: a Redis pub/sub
+   * channel, or any `CacheBus` such as a `LocalCacheBus` shared by instances in one process.
+   */
+  bus?: CacheBus | RedisCacheBusConfig;
+}
+
+/** Target of `db.cache.invalidate`. */
+export interface CacheInvalidation {
+  table: string;
+  /** `id:<id>`, `field:<name>`, `query` (reads an insert could change) or `all`; omit to drop the whole table. */
+  tags?: string[];
+}
+
+export interface CacheBusMessage extends CacheInvalidation {
+  /** Id of the cache that published it, so it can skip its own messages. */
+  source: string;
+}
+
+/**
+ * Transport for cache invalidations between `CacheWrapper` instances.
+ */
+export interface CacheBus {
+  publish(message: CacheBusMessage): Promise<void> | void;
+  /** Delivers every published message to the handler until the returned function is called. */
+  subscribe(handler: (message: CacheBusMessage) => void): Promise<() => Promise<void> | void> | (() => Promise<void> | void);
+}
+
+export interface RedisCacheBusConfig {
+  type: 'redis';
+  host?: string;
+  port?: number;
+  password?: string;
+  db?: number;
+  /** Pub/sub channel shared by the processes (default `zerohelper_cache`). */
+  channel?: string;
+}
+
+export type ColumnType = 'string' | 'text' | 'integer' | 'number' | 'boolean' | 'date' | 'json';
+
+export interface ColumnDefinition {
+  type: ColumnType;
+  /** Defaults to true; primary key columns are never nullable. */
+  nullable?: boolean;
+  default?: any;
+  primaryKey?: boolean;
+}
+
+/** Column name to type (shorthand) or full definition. `_id` is always the auto-increment row id. */
+export type TableSchema = Record<string, ColumnType | ColumnDefinition>;
+
+export interface IndexOptions {
+  /** Reject writes that repeat an existing key. Rows missing any indexed field are not constrained. */
+  unique?: boolean;
+  /** Defaults to `idx_<table>_<fields>` (`uq_` for unique indexes). */
+  name?: string;
+}
+
+export type RelationType = 'hasOne' | 'hasMany' | 'belongsTo';
+
+export interface RelationDefinition {
+  type: RelationType;
+  /** The related table. */
+  table: string;
+  /** Column holding the reference: on the related table for hasOne/hasMany, on this table for belongsTo. */
+  foreignKey: string;
+  /** Column the foreign key points at; defaults to `_id`. */
+  key?: string;
+}
+
+export interface TableOptions {
+  /** Maintain `createdAt` on inserts and `updatedAt` on every write. */
+  timestamps?: boolean;
+  /** `delete` sets `deletedAt` instead of removing rows, and reads skip those rows. */
+  softDelete?: boolean;
+  /** Maintain a `_version` counter that every write bumps, so `update` and `set` can take an `expectedVersion`. */
+  versioned?: boolean;
+}
+
+export interface UpdateOptions {
+  /**
+   * Only write when the row is still at this `_version`, otherwise throw a `ConcurrencyError`.
+   * Requires a `versioned` table.
+   */
+  expectedVersion?: number;
+}
+
+export type ChangeOp = 'insert' | 'update' | 'delete';
+
+export interface ChangeEvent<T = any> {
+  op: ChangeOp;
+  table: string;
+  /** The row before the change; null for inserts. */
+  before: T | null;
+  /** The row after the change; null for deletes (soft deletes included). */
+  after: T | null;
+  /** Milliseconds since the epoch. */
+  ts: number;
 }
 
 export type DatabaseOptions =
@@ -58,3 +192,74 @@ export type DatabaseOptions =
   | { adapter: 'toon'; config: ToonConfig };
 
 export type AdapterType = DatabaseOptions['adapter'];
+
+export interface WhereOperators {
+  $eq?: any;
+  $ne?: any;
+  $gt?: any;
+  $gte?: any;
+  $lt?: any;
+  $lte?: any;
+  $in?: any[];
+  $nin?: any[];
+  $like?: string;
+  $exists?: boolean;
+}
+
+export interface WhereClause {
+  $and?: WhereClause[];
+  $or?: WhereClause[];
+  $not?: WhereClause;
+  [field: string]: any | WhereOperators;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ReadOptions {
+  /** `false` skips the cache for this read; `{ ttl }` caches its result for `ttl` ms. */
+  cache?: false | { ttl?: number };
+}
+
+export interface SelectOptions extends ReadOptions {
+  orderBy?: Partial<Record<string, SortDirection>>;
+  limit?: number;
+  offset?: number;
+  fields?: string[];
+  /** Relations to load onto each row, see `defineRelation`. Nested relations use dots: `items.product`. */
+  include?: string[];
+  /** Also return soft-deleted rows of a `softDelete` table. */
+  withDeleted?: boolean;
+}
+
+export interface StreamOptions {
+  /** Rows fetched from the backend per round trip (default 500). */
+  batchSize?: number;
+}
+
+export interface PaginateOptions {
+  where?: WhereClause | null;
+  orderBy?: Partial<Record<string, SortDirection>>;
+  /** `nextCursor` of the previous page. */
+  after?: string | null;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type AggregateMetric =
+  | { $sum: string }
+  | { $avg: string }
+  | { $min: string }
+  | { $max: string }
+  | { $count: string };
+
+export interface AggregateOptions {
+  groupBy?: string | string[];
+  metrics: Record<string, AggregateMetric>;
+  where?: WhereClause | null;
+  having?: WhereClause | null;
+}
@@ -3,7 +3,10 @@ import fs from 'fs';
 const fsp = fs.promises;
 import path from 'path';
 import zlib from 'zlib';
-import { ZPackConfig } from './types';
+import { ZPackConfig, SelectOptions, AggregateOptions, StreamOptions, IndexOptions } from './types';
+import { matchesWhere, isOperatorObject, queryRows, distinctValues, aggregateRows, batchSizeOf, assignPaths, incrementPaths, getPath } from './query';
+import { normalizeIndex, assertUnique, indexValue, indexValues } from './indexes';
+import { UniqueConstraintError } from './errors';
 
 /**
  * ZPackDatabase: Low-level Binary Storage
@@ -308,6 +311,9 @@ export class ZPackDatabase {
 /**
  * ZPackAdapter: IDatabase Implementation
  */
+/** Rows touched by a transaction, keyed by `table:id`, with their state before the first write. */
+type UndoLog = Map<string, { table: string; logicalId: number; before: any | null }>;
+
 export class ZPackAdapter extends IDatabase {
   private db: ZPackDatabase;
   private initPromise: Promise<void>;
@@ -318,6 +324,7 @@ export class ZPackAdapter extends IDatabase {
   private indexedFields: Map<string, Set<string>> = new Map();
   private _isClosing: boolean = false;
   private _executing: Promise<any> = Promise.resolve();
+  private _undo: UndoLog | null = null;
 
   constructor(config: ZPackConfig) {
     super();
@@ -345,7 +352,9 @@ export class ZPackAdapter extends IDatabase {
 
   private async _execute<T>(fn: () => Promise<T>): Promise<T> {
     if (this._isClosing) throw new Error("ZPack: Adaptör kapanıyor.");
-    
+    // A transaction already holds the queue for its whole lifetime
+    if (this._undo) return fn();
+
     const next = this._executing.then(async () => {
         if (this._isClosing) return;
         await this.initPromise;
@@ -357,39 +366,37 @@ export class ZPackAdapter extends IDatabase {
 
   // --- INTERNAL RAW METHODS (No Queue) to prevent deadlocks ---
 
-  private async _rawSelect<T = any>(table: string, where: Record<string, any> | null = null): Promise<T[]> {
+  private async _rawSelect<T = any>(table: string, where: Record<string, any> | null = null, options: SelectOptions = {}): Promise<T[]> {
     await this.ensureTable(table);
-    if (where && Object.keys(where).length === 1) {
-      const [field, value] = Object.entries(where)[0];
-      const index = this.secondary.get(table)?.get(field);
-      if (index) {
-        const matches = index.get(String(value));
-        if (matches) {
-          const results: T[] = [];
-          for (const logicalId of matches) {
-            const physicalId = this.keyIndex.get(table)!.get(logicalId);
-            if (physicalId !== undefined) {
-              const doc = await this.db.get(Number(physicalId));
-              if (doc) results.push(doc as unknown as T);
-            }
-          }
-          return results;
-        }
-        return [];
-      }
+    const sorted = !!options.orderBy && Object.keys(options.orderBy).length > 0;
+    const end = options.limit !== undefined ? (options.offset || 0) + options.limit : Infinity;
+    const candidates = this._indexCandidates(table, where) ?? this.keyIndex.get(table)!.keys();
+    const matched: any[] = [];
+    for (const logicalId of candidates) {
+      if (!sorted && matched.length >= end) break;
+      const row = await this._loadRow(table, logicalId);
+      if (row && this._matches(row, where)) matched.push({ ...row });
     }
-    const results: T[] = [];
-    for (const [logicalId, physicalId] of this.keyIndex.get(table)!.entries()) {
-      let row = this.rowCache.get(table)!.get(logicalId);
-      if (!row) {
-        const doc = await this.db.get(Number(physicalId));
-        if (!doc) continue;
-        row = doc;
-        this.rowCache.get(table)!.set(logicalId, row);
-      }
-      if (this._matches(row, where)) results.push({ ...row } as unknown as T);
-    }
-    return results;
+    return queryRows<T>(matched, null, options);
+  }
+
+  private _indexCandidates(table: string, where: Record<string, any> | null): Iterable<number> | null {
+    if (!where || Object.keys(where).length !== 1) return null;
+    const [field, value] = Object.entries(where)[0];
+    const index = isOperatorObject(value) ? undefined : this.secondary.get(table)?.get(field);
+    if (!index) return null;
+    return Array.from(index.get(indexValue(value)) || []);
+  }
+
+  private async _loadRow(table: string, logicalId: number): Promise<any | null> {
+    const cached = this.rowCache.get(table)!.get(logicalId);
+    if (cached) return cached;
+    const physicalId = this.keyIndex.get(table)!.get(logicalId);
+    if (physicalId === undefined) return null;
+    const doc = await this.db.get(Number(physicalId));
+    if (!doc) return null;
+    this.rowCache.get(table)!.set(logicalId, doc);
+    return doc;
   }
 
   async ensureTable(table: string): Promise<void> {
@@ -408,15 +415,68 @@ export class ZPackAdapter extends IDatabase {
     for (const field of fields) {
       if (!tableIndex.has(field)) tableIndex.set(field, new Map());
       const fieldMap = tableIndex.get(field)!;
-      if (oldData && oldData[field] !== undefined) fieldMap.get(String(oldData[field]))?.delete(logicalId);
-      if (data[field] !== undefined) {
-        const newVal = String(data[field]);
+      const oldValue = oldData ? getPath(oldData, field) : undefined;
+      if (oldValue !== undefined) fieldMap.get(indexValue(oldValue))?.delete(logicalId);
+      const value = getPath(data, field);
+      if (value !== undefined) {
+        const newVal = indexValue(value);
         if (!fieldMap.has(newVal)) fieldMap.set(newVal, new Set());
         fieldMap.get(newVal)!.add(logicalId);
       }
     }
   }
 
+  /**
+   * Rejects rows (with their `_id`) that would share a unique key with each other or with a row
+   * outside the batch. Existing keys are looked up in the secondary index of each field.
+   */
+  private _assertUnique(table: string, rows: any[]): void {
+    const batch = new Set(rows.map(r => Number(r._id)));
+    for (const index of this.indexes[table] || []) {
+      if (!index.unique) continue;
+      assertUnique(table, [index], rows);
+      for (const row of rows) {
+        const values = indexValues(row, index);
+        if (!values) continue;
+        let owners = Array.from(this._indexed(table, index.fields[0], values[0]));
+        for (let i = 1; i < index.fields.length; i++) {
+          const ids = this._indexed(table, index.fields[i], values[i]);
+          owners = owners.filter(id => ids.has(id));
+        }
+        if (owners.some(id => !batch.has(id))) throw new UniqueConstraintError(table, index.fields, values);
+      }
+    }
+  }
+
+  private _indexed(table: string, field: string, value: any): Set<number> {
+    return this.secondary.get(table)!.get(field)?.get(indexValue(value)) || new Set();
+  }
+
+  /**
+   * Records a row's state before its first write inside a transaction (null for new rows).
+   */
+  private _remember(table: string, logicalId: number, before: any | null): void {
+    const key = `${table}:${logicalId}`;
+    if (this._undo && !this._undo.has(key)) this._undo.set(key, { table, logicalId, before: before && { ...before } });
+  }
+
+  private async _undoWrites(undo: UndoLog, maxIds: Map<string, number>): Promise<void> {
+    for (const { table, logicalId, before } of Array.from(undo.values()).reverse()) {
+      const current = await this._loadRow(table, logicalId);
+      const physicalId = this.keyIndex.get(table)!.get(logicalId);
+      if (physicalId !== undefined) await this.db.delete(Number(physicalId));
+      this.keyIndex.get(table)!.delete(logicalId);
+      this.rowCache.get(table)!.delete(logicalId);
+      if (before) {
+        const restored = await this.db.insert(this._coerce(table, before, logicalId));
+        this.keyIndex.get(table)!.set(logicalId, BigInt(restored));
+        this.rowCache.get(table)!.set(logicalId, before);
+      }
+      this._updateSecondaryIndex(table, logicalId, before || {}, current);
+    }
+    this.tableMaxId = maxIds;
+  }
+
   private _coerce(table: string, data: any, id: number): Record<string, string> {
     const out: Record<string, string> = { t: table, _id: String(id) };
     for (const [k, v] of Object.entries(data || {})) {
@@ -426,51 +486,102 @@ export class ZPackAdapter extends IDatabase {
   }
 
   private _matches(row: any, where: Record<string, any> | null): boolean {
-    if (!where || Object.keys(where).length === 0) return true;
-    return Object.entries(where).every(([k, v]) => String(row[k]) === String(v));
+    return matchesWhere(row, where);
   }
 
   // --- PUBLIC METHODS (With Queue) ---
 
-  async select<T = any>(table: string, where: Record<string, any> | null = null): Promise<T[]> {
-    return this._execute(() => this._rawSelect<T>(table, where));
+  async select<T = any>(table: string, where: Record<string, any> | null = null, options: SelectOptions = {}): Promise<T[]> {
+    if (options.include?.length) return this.eagerLoad<T>(table, where, options);
+    return this._execute(() => this._rawSelect<T>(table, where, options));
+  }
+
+  /**
+   * Reads rows one by one over a snapshot of the key index. Rows are not added to the row cache.
+   */
+  async *stream<T = any>(table: string, where: Record<string, any> | null = null, options: StreamOptions = {}): AsyncGenerator<T> {
+    const batchSize = batchSizeOf(options);
+    const ids = await this._execute(async () => {
+      await this.ensureTable(table);
+      return Array.from(this._indexCandidates(table, where) ?? this.keyIndex.get(table)!.keys());
+    });
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = await this._execute(async () => {
+        const rows: any[] = [];
+        for (const logicalId of ids.slice(i, i + batchSize)) {
+          const physicalId = this.keyIndex.get(table)!.get(logicalId);
+          if (physicalId === undefined) continue;
+          const row = this.rowCache.get(table)!.get(logicalId) ?? await this.db.get(Number(physicalId));
+          if (row && this._matches(row, where)) rows.push({ ...row });
+        }
+        return rows;
+      });
+      yield* batch as T[];
+    }
   }
 
   async selectOne<T = any>(table: string, where: Record<string, any> | null = null): Promise<T | null> {
-    const res = await this.select<T>(table, where);
+    const res = await this.select<T>(table, where, { limit: 1 });
     return res[0] || null;
   }
 
+  async count(table: string, where: Record<string, any> | null = null): Promise<number> {
+    return this._execute(async () => {
+      await this.ensureTable(table);
+      if (!where || !Object.keys(where).length) return this.keyIndex.get(table)!.size;
+      let total = 0;
+      for (const logicalId of this._indexCandidates(table, where) ?? this.keyIndex.get(table)!.keys()) {
+        const row = await this._loadRow(table, logicalId);
+        if (row && this._matches(row, where)) total++;
+      }
+      return total;
+    });
+  }
+
+  async exists(table: string, where: Record<string, any> | null = null): Promise<boolean> {
+    return this._execute(async () => (await this._rawSelect(table, where, { limit: 1 })).length > 0);
+  }
+
+  async distinct<T = any>(table: string, field: string, where: Record<string, any> | null = null): Promise<T[]> {
+    return this._execute(async () => distinctValues<T>(await this._rawSelect(table, where), field));
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    return this._execute(async () => aggregateRows(await this._rawSelect(table, options.where || null), { ...options, where: null }));
+  }
+
   async insert(table: string, data: Record<string, any>): Promise<number> {
     return this._execute(async () => {
       await this.ensureTable(table);
-      await this.runHooks('beforeInsert', table, data);
+      this.validate(table, data);
       const nextId = (this.tableMaxId.get(table) || 0) + 1;
+      this._assertUnique(table, [{ _id: nextId, ...data }]);
       const record = this._coerce(table, data, nextId);
+      this._remember(table, nextId, null);
       const physicalId = await this.db.insert(record);
       this.tableMaxId.set(table, nextId);
       this.keyIndex.get(table)!.set(nextId, BigInt(physicalId));
       const fullRow = { _id: nextId, ...data };
       this.rowCache.get(table)!.set(nextId, fullRow);
       this._updateSecondaryIndex(table, nextId, fullRow);
-      await this.runHooks('afterInsert', table, fullRow);
       return nextId;
     });
   }
 
   async update(table: string, data: Record<string, any>, where: Record<string, any>): Promise<number> {
+    this.validate(table, data, true);
     return this._execute(async () => {
       const rows = await this._rawSelect(table, where);
+      this._assertUnique(table, rows.map(row => assignPaths({ ...row }, data)));
       for (const row of rows) {
         const logicalId = Number((row as any)._id);
-        await this.runHooks('beforeUpdate', table, { old: row, new: data });
-        const merged = { ...row, ...data };
+        const merged = assignPaths({ ...row }, data);
         const record = this._coerce(table, merged, logicalId);
+        this._remember(table, logicalId, row);
         const physicalId = await this.db.insert(record);
         this.keyIndex.get(table)!.set(logicalId, BigInt(physicalId));
         this.rowCache.get(table)!.set(logicalId, merged);
         this._updateSecondaryIndex(table, logicalId, merged, row);
-        await this.runHooks('afterUpdate', table, merged);
       }
       return rows.length;
     });
@@ -481,15 +592,14 @@ export class ZPackAdapter extends IDatabase {
       const rows = await this._rawSelect(table, where);
       for (const row of rows) {
         const logicalId = Number((row as any)._id);
-        await this.runHooks('beforeDelete', table, row);
         const physicalId = this.keyIndex.get(table)!.get(logicalId);
         if (physicalId !== undefined) {
+          this._remember(table, logicalId, row);
           await this.db.delete(Number(physicalId));
           this.keyIndex.get(table)!.delete(logicalId);
           this.rowCache.get(table)!.delete(logicalId);
           this._updateSecondaryIndex(table, logicalId, {}, row);
         }
-        await this.runHooks('afterDelete', table, row);
       }
       return rows.length;
     });
@@ -498,12 +608,15 @@ export class ZPackAdapter extends IDatabase {
   async set(table: string, data: Record<string, any>, where: Record<string, any>): Promise<any> {
     return this._execute(async () => {
         const existing = await this._rawSelect(table, where);
+        this.validate(table, existing.length > 0 ? data : { ...where, ...data }, existing.length > 0);
         if (existing.length > 0) {
             // Update logic here directly using _raw logic
             const row = existing[0];
             const logicalId = Number((row as any)._id);
-            const merged = { ...row, ...data };
+            const merged = assignPaths({ ...row }, data);
+            this._assertUnique(table, [merged]);
             const record = this._coerce(table, merged, logicalId);
+            this._remember(table, logicalId, row);
             const physicalId = await this.db.insert(record);
             this.keyIndex.get(table)!.set(logicalId, BigInt(physicalId));
             this.rowCache.get(table)!.set(logicalId, merged);
@@ -512,7 +625,9 @@ export class ZPackAdapter extends IDatabase {
         } else {
             // Insert logic here directly
             const nextId = (this.tableMaxId.get(table) || 0) + 1;
+            this._assertUnique(table, [{ _id: nextId, ...where, ...data }]);
             const record = this._coerce(table, { ...where, ...data }, nextId);
+            this._remember(table, nextId, null);
             const physicalId = await this.db.insert(record);
             this.tableMaxId.set(table, nextId);
             this.keyIndex.get(table)!.set(nextId, BigInt(physicalId));
@@ -525,10 +640,15 @@ export class ZPackAdapter extends IDatabase {
   }
 
   async bulkInsert(table: string, dataArray: Record<string, any>[]): Promise<number> {
+    this.validate(table, dataArray);
     return this._execute(async () => {
+        await this.ensureTable(table);
+        const firstId = (this.tableMaxId.get(table) || 0) + 1;
+        this._assertUnique(table, dataArray.map((d, i) => ({ _id: firstId + i, ...d })));
         for (const d of dataArray) {
             const nextId = (this.tableMaxId.get(table) || 0) + 1;
             const record = this._coerce(table, d, nextId);
+            this._remember(table, nextId, null);
             const physicalId = await this.db.insert(record);
             this.tableMaxId.set(table, nextId);
             this.keyIndex.get(table)!.set(nextId, BigInt(physicalId));
@@ -543,11 +663,12 @@ export class ZPackAdapter extends IDatabase {
   async increment(table: string, incs: Record<string, number>, where: Record<string, any> = {}): Promise<number> {
     return this._execute(async () => {
       const rows = await this._rawSelect(table, where);
+      this._assertUnique(table, rows.map(row => incrementPaths({ ...row }, incs)));
       for (const row of rows) {
         const logicalId = Number((row as any)._id);
-        const merged = { ...row };
-        for (const [f, v] of Object.entries(incs)) merged[f] = (Number(merged[f]) || 0) + v;
+        const merged = incrementPaths({ ...row }, incs);
         const record = this._coerce(table, merged, logicalId);
+        this._remember(table, logicalId, row);
         const physicalId = await this.db.insert(record);
         this.keyIndex.get(table)!.set(logicalId, BigInt(physicalId));
         this.rowCache.get(table)!.set(logicalId, merged);
@@ -563,6 +684,45 @@ export class ZPackAdapter extends IDatabase {
     return this.increment(table, incs, where);
   }
 
+  /**
+   * Adds the fields to the secondary index (like `indexFields`) and rebuilds it for the table.
+   * Unique indexes are enforced through the same lookups.
+   */
+  async createIndex(table: string, fields: string | string[], options: IndexOptions = {}): Promise<void> {
+    const index = normalizeIndex(table, fields, options);
+    return this._execute(async () => {
+      const rows = await this._rawSelect(table);
+      assertUnique(table, [index], rows);
+      const indexed = this.indexedFields.get(table) || new Set<string>();
+      index.fields.forEach(f => indexed.add(f));
+      this.indexedFields.set(table, indexed);
+      for (const row of rows) this._updateSecondaryIndex(table, Number(row._id), row, row);
+      this.registerIndex(table, index);
+    });
+  }
+
+  async transaction<T>(fn: (tx: IDatabase) => Promise<T>): Promise<T> {
+    const undo: UndoLog = new Map();
+    let maxIds = new Map<string, number>();
+    let release: (() => void) | null = null;
+    return this.runTransaction(fn, {
+      begin: async () => {
+        if (this._isClosing) throw new Error("ZPack: Adaptör kapanıyor.");
+        // Hold the write queue until the transaction ends
+        const held = new Promise<void>(resolve => release = resolve);
+        await new Promise<void>(acquired => {
+          this._executing = this._executing.then(() => { acquired(); return held; });
+        });
+        await this.initPromise;
+        maxIds = new Map(this.tableMaxId);
+        return { _undo: undo };
+      },
+      commit: async () => {},
+      rollback: () => this._undoWrites(undo, maxIds),
+      release: () => release?.(),
+    });
+  }
+
   async vacuum(): Promise<void> { 
     return this._execute(async () => {
         await this.db.vacuum(); 
@@ -571,6 +731,7 @@ export class ZPackAdapter extends IDatabase {
 
   async close(): Promise<void> {
     this._isClosing = true;
+    await this.closeWatchers();
     try {
         await this._executing;
         await this.db.close();
@@ -1,7 +1,8 @@
 import dotenv from 'dotenv'
 import path from 'path';
 import fs from 'fs';
-import createDatabase, { IDatabase } from '../../database';
+import createDatabase, { IDatabase, ValidationError, UniqueConstraintError, ConcurrencyError } from '../../database';
+import { HookType } from '../../database/IDatabase';
 import { DatabaseOptions } from '../../database/types';
 dotenv.config()
 // Test edilecek adaptörlerin listesini hazırla
@@ -119,6 +120,20 @@ if (process.env.TEST_ZPACK_ENABLED === 'true') {
   });
 }
 
+// 8. TOON Configuration
+if (process.env.TEST_TOON_ENABLED === 'true') {
+  const toonPath = process.env.TOON_FILE || './test_db.toon';
+  adaptersToTest.push({
+    name: 'TOON',
+    options: createOption('toon', {
+      path: toonPath
+    }),
+    teardown: async () => {
+      if (fs.existsSync(toonPath)) fs.unlinkSync(toonPath);
+    }
+  });
+}
+
 // --- MASTER TEST SUITE ---
 describe('Database Adapters Integration Tests', () => {
   jest.setTimeout(120000); // 120s global timeout for DB tests
@@ -252,6 +267,945 @@ describe('Database Adapters Integration Tests', () => {
         expect(all.length).toBeGreaterThanOrEqual(10);
       });
 
+      describe('🔎 Query Operators', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'onur', age: 17, status: 'a', deletedAt: null },
+            { name: 'Onurcan', age: 25, status: 'b', deletedAt: null },
+            { name: 'ege', age: 40, status: 'c', deletedAt: 'yesterday' }
+          ]);
+        });
+
+        it('should filter with comparison operators', async () => {
+          const adults = await db.select(testTable, { age: { $gt: 18 } });
+          expect(adults.map((r: any) => r.name).sort()).toEqual(['Onurcan', 'ege']);
+
+          const range = await db.select(testTable, { age: { $gte: 17, $lt: 40 } });
+          expect(range).toHaveLength(2);
+
+          const notB = await db.select(testTable, { status: { $ne: 'b' } });
+          expect(notB).toHaveLength(2);
+        });
+
+        it('should filter with $in and $nin', async () => {
+          const inSet = await db.select(testTable, { status: { $in: ['a', 'b'] } });
+          expect(inSet).toHaveLength(2);
+
+          const notInSet = await db.select(testTable, { status: { $nin: ['a', 'b'] } });
+          expect(notInSet.map((r: any) => r.name)).toEqual(['ege']);
+        });
+
+        it('should filter with case-insensitive $like', async () => {
+          const rows = await db.select(testTable, { name: { $like: 'on%' } });
+          expect(rows.map((r: any) => r.name).sort()).toEqual(['Onurcan', 'onur']);
+        });
+
+        it('should filter with $exists', async () => {
+          const live = await db.select(testTable, { deletedAt: { $exists: false } });
+          expect(live).toHaveLength(2);
+          const removed = await db.select(testTable, { deletedAt: { $exists: true } });
+          expect(removed.map((r: any) => r.name)).toEqual(['ege']);
+          expect(await db.count(testTable, { deletedAt: { $exists: true, $ne: 'yesterday' } })).toBe(0);
+          expect(await db.count(testTable, { deletedAt: { $ne: 'yesterday', $exists: true } })).toBe(0);
+          expect(await db.count(testTable, { deletedAt: { $exists: false, $ne: 'x' } })).toBe(2);
+        });
+
+        it('should support $or, $and and $not groups', async () => {
+          const either = await db.select(testTable, { $or: [{ status: 'a' }, { age: { $gte: 40 } }] });
+          expect(either.map((r: any) => r.name).sort()).toEqual(['ege', 'onur']);
+
+          const nested = await db.select(testTable, {
+            $and: [
+              { age: { $gt: 10 } },
+              { $or: [{ name: { $like: 'onur%' } }, { status: 'c' }] }
+            ],
+            $not: { status: 'b' }
+          });
+          expect(nested.map((r: any) => r.name).sort()).toEqual(['ege', 'onur']);
+
+          const none = await db.select(testTable, { $or: [] });
+          expect(none).toHaveLength(0);
+        });
+
+        it('should apply groups to update and delete', async () => {
+          expect(await db.update(testTable, { status: 'x' }, { $or: [{ name: 'onur' }, { name: 'ege' }] })).toBe(2);
+          expect(await db.delete(testTable, { $not: { status: 'x' } })).toBe(1);
+          const left = await db.select(testTable, {});
+          expect(left).toHaveLength(2);
+        });
+
+        it('should apply operators to update, increment and delete', async () => {
+          expect(await db.update(testTable, { status: 'adult' }, { age: { $gte: 18 } })).toBe(2);
+          expect(await db.increment(testTable, { age: 1 }, { status: { $in: ['adult'] } })).toBe(2);
+          const older = await db.selectOne(testTable, { name: 'ege' });
+          expect(Number(older.age)).toBe(41);
+          expect(await db.delete(testTable, { age: { $lt: 18 } })).toBe(1);
+        });
+      });
+
+      describe('📑 Select Options', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'c', score: 100 },
+            { name: 'a', score: 9 },
+            { name: 'd', score: 25 },
+            { name: 'b', score: 25 }
+          ]);
+        });
+
+        it('should order results', async () => {
+          const rows = await db.select(testTable, {}, { orderBy: { score: 'desc', name: 'asc' } });
+          expect(rows.map((r: any) => r.name)).toEqual(['c', 'b', 'd', 'a']);
+        });
+
+        it('should apply limit and offset', async () => {
+          const page = await db.select(testTable, {}, { orderBy: { name: 'asc' }, limit: 2, offset: 1 });
+          expect(page.map((r: any) => r.name)).toEqual(['b', 'c']);
+
+          const tail = await db.select(testTable, { score: { $gte: 10 } }, { orderBy: { name: 'asc' }, offset: 2 });
+          expect(tail.map((r: any) => r.name)).toEqual(['d']);
+        });
+
+        it('should project selected fields', async () => {
+          const rows = await db.select(testTable, { name: 'a' }, { fields: ['name'] });
+          expect(rows).toEqual([{ name: 'a' }]);
+        });
+      });
+
+      describe('🔢 Count, Exists & Distinct', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'a', city: 'Ankara' },
+            { name: 'b', city: 'Izmir' },
+            { name: 'c', city: 'Ankara' },
+            { name: 'd', city: null }
+          ]);
+        });
+
+        it('should count matching records', async () => {
+          expect(await db.count(testTable)).toBe(4);
+          expect(await db.count(testTable, { city: 'Ankara' })).toBe(2);
+          expect(await db.count(testTable, { city: { $exists: false } })).toBe(1);
+        });
+
+        it('should check existence', async () => {
+          expect(await db.exists(testTable, { name: 'b' })).toBe(true);
+          expect(await db.exists(testTable, { name: 'zzz' })).toBe(false);
+          expect(await db.exists(testTable)).toBe(true);
+        });
+
+        it('should return distinct non-null values', async () => {
+          expect((await db.distinct(testTable, 'city')).sort()).toEqual(['Ankara', 'Izmir']);
+          expect(await db.distinct(testTable, 'city', { name: { $in: ['b', 'd'] } })).toEqual(['Izmir']);
+        });
+      });
+
+      describe('📈 Aggregation', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'a', city: 'Ankara', amount: 10 },
+            { name: 'b', city: 'Izmir', amount: 5 },
+            { name: 'c', city: 'Ankara', amount: 30 },
+            { name: 'd', city: 'Izmir', amount: null }
+          ]);
+        });
+
+        it('should compute metrics over the whole table', async () => {
+          const [row] = await db.aggregate(testTable, {
+            metrics: { total: { $sum: 'amount' }, avg: { $avg: 'amount' }, min: { $min: 'amount' }, max: { $max: 'amount' }, n: { $count: '*' }, withAmount: { $count: 'amount' } }
+          });
+          expect(row).toEqual({ total: 45, avg: 15, min: 5, max: 30, n: 4, withAmount: 3 });
+        });
+
+        it('should group, filter and apply having', async () => {
+          const rows = await db.aggregate(testTable, { groupBy: 'city', metrics: { total: { $sum: 'amount' }, n: { $count: '*' } } });
+          expect(rows.sort((x, y) => x.city.localeCompare(y.city))).toEqual([
+            { city: 'Ankara', total: 40, n: 2 },
+            { city: 'Izmir', total: 5, n: 2 }
+          ]);
+
+          const filtered = await db.aggregate(testTable, {
+            groupBy: ['city'],
+            metrics: { total: { $sum: 'amount' } },
+            where: { name: { $ne: 'a' } },
+            having: { total: { $gt: 10 } }
+          });
+          expect(filtered).toEqual([{ city: 'Ankara', total: 30 }]);
+        });
+
+        it('should group on nested fields', async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'e', address: { city: 'Bursa' }, amount: 7 },
+            { name: 'f', address: { city: 'Bursa' }, amount: 3 },
+            { name: 'g', address: { city: 'Van' }, amount: 1 }
+          ]);
+          const rows = await db.aggregate(testTable, {
+            groupBy: 'address.city',
+            metrics: { total: { $sum: 'amount' } },
+            where: { 'address.city': { $exists: true } }
+          });
+          expect(rows.sort((x, y) => x['address.city'].localeCompare(y['address.city']))).toEqual([
+            { 'address.city': 'Bursa', total: 10 },
+            { 'address.city': 'Van', total: 1 }
+          ]);
+        });
+
+        it('should return a single zero row for empty matches', async () => {
+          const [row] = await db.aggregate(testTable, { metrics: { total: { $sum: 'amount' }, avg: { $avg: 'amount' } }, where: { name: 'zzz' } });
+          expect(row).toEqual({ total: 0, avg: null });
+        });
+      });
+
+      describe('🌊 Streaming', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, Array.from({ length: 25 }, (_, i) => ({ name: `user_${i}`, score: i })));
+        });
+
+        it('should yield every matching row across batches', async () => {
+          const seen: number[] = [];
+          for await (const row of db.stream(testTable, { score: { $gte: 5 } }, { batchSize: 4 })) seen.push(Number(row.score));
+          expect(seen.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 5));
+        });
+
+        it('should release resources when the consumer stops early', async () => {
+          let taken = 0;
+          for await (const _row of db.stream(testTable, null, { batchSize: 2 })) {
+            if (++taken === 3) break;
+          }
+          expect(taken).toBe(3);
+          expect(await db.count(testTable)).toBe(25);
+          await db.update(testTable, { score: 100 }, { name: 'user_0' });
+          expect(Number((await db.selectOne(testTable, { name: 'user_0' })).score)).toBe(100);
+        });
+      });
+
+      describe('📄 Cursor Pagination', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'a', score: 30, active: true },
+            { name: 'b', score: 10, active: true },
+            { name: 'c', score: 30, active: false },
+            { name: 'd', score: null, active: true },
+            { name: 'e', score: 20, active: true },
+            { name: 'f', score: 10, active: true },
+            { name: 'g', score: 5, active: true }
+          ]);
+        });
+
+        const collect = async (options: any) => {
+          const names: string[] = [];
+          let after: string | null = null;
+          let pages = 0;
+          do {
+            const page: any = await db.paginate(testTable, { ...options, after });
+            names.push(...page.items.map((r: any) => r.name));
+            expect(page.hasMore).toBe(page.nextCursor !== null);
+            after = page.nextCursor;
+            pages++;
+          } while (after && pages < 10);
+          return { names, pages };
+        };
+
+        it('should walk every row exactly once in sort order', async () => {
+          const { names, pages } = await collect({ orderBy: { score: 'desc' }, limit: 3 });
+          expect(pages).toBe(3);
+          expect(names).toEqual(['a', 'c', 'e', 'b', 'f', 'g', 'd']);
+          expect((await collect({ orderBy: { score: 'asc' }, limit: 2 })).names).toEqual(['d', 'g', 'b', 'f', 'e', 'a', 'c']);
+        });
+
+        it('should combine cursors with where clauses', async () => {
+          const { names } = await collect({ where: { active: true, score: { $gte: 10 } }, orderBy: { score: 'asc' }, limit: 2 });
+          expect(names).toEqual(['b', 'f', 'e', 'a']);
+        });
+
+        it('should page on dot-path fields', async () => {
+          const nestedTable = testTable + '_pages';
+          await db.bulkInsert(nestedTable, [
+            { name: 'a', stats: { score: 3 } },
+            { name: 'b', stats: { score: 1 } },
+            { name: 'c', stats: { score: 2 } },
+            { name: 'd', stats: { score: 1 } }
+          ]);
+          const names: string[] = [];
+          let after: string | null = null;
+          do {
+            const page: any = await db.paginate(nestedTable, { orderBy: { 'stats.score': 'desc' }, limit: 1, after });
+            names.push(...page.items.map((r: any) => r.name));
+            after = page.nextCursor;
+          } while (after && names.length < 10);
+          expect(names).toEqual(['a', 'c', 'b', 'd']);
+        });
+
+        it('should reject cursors from a different ordering', async () => {
+          const page = await db.paginate(testTable, { orderBy: { score: 'asc' }, limit: 1 });
+          await expect(db.paginate(testTable, { orderBy: { name: 'asc' }, after: page.nextCursor })).rejects.toThrow('imleci');
+        });
+      });
+
+      if (['sqlite', 'mysql', 'postgres'].includes(options.adapter)) {
+        describe('🗂️ Typed Schemas', () => {
+          const typedTable = testTable + '_typed';
+
+          beforeAll(() => {
+            db.defineSchema(typedTable, {
+              sku: { type: 'string', primaryKey: true },
+              code: 'string',
+              qty: { type: 'integer', nullable: false, default: 0 },
+              active: 'boolean',
+              meta: 'json',
+              seenAt: 'date'
+            });
+          });
+
+          beforeEach(async () => {
+            await db.delete(typedTable, {});
+          });
+
+          it('should decode values by their declared type and apply defaults', async () => {
+            const seenAt = new Date('2024-01-02T03:04:05Z');
+            await db.insert(typedTable, { sku: 'A1', code: '123', active: true, meta: '42', seenAt });
+            const row = await db.selectOne(typedTable, { sku: 'A1' });
+            expect(row).toMatchObject({ sku: 'A1', code: '123', qty: 0, active: true, meta: '42' });
+            expect(row.seenAt).toEqual(seenAt);
+            await db.update(typedTable, { meta: { tags: ['x'] } }, { sku: 'A1' });
+            expect((await db.selectOne(typedTable, { sku: 'A1' })).meta).toEqual({ tags: ['x'] });
+          });
+
+          it('should enforce primary key columns', async () => {
+            await db.insert(typedTable, { sku: 'B1', code: 'x' });
+            await expect(db.insert(typedTable, { sku: 'B1', code: 'y' })).rejects.toBeInstanceOf(UniqueConstraintError);
+          });
+        });
+      }
+
+      describe('🧬 Nested JSON Paths', () => {
+        beforeEach(async () => {
+          await db.insert(testTable, { name: 'Onur', profile: { city: 'Ankara', age: 25 }, settings: { theme: 'light', lang: 'tr' } });
+          await db.insert(testTable, { name: 'Ali', profile: { city: 'İzmir', age: 17 }, settings: { theme: 'dark', lang: 'en' } });
+        });
+
+        it('should filter on nested fields', async () => {
+          expect((await db.select(testTable, { 'profile.city': 'Ankara' })).map((r: any) => r.name)).toEqual(['Onur']);
+          expect(await db.count(testTable, { 'profile.age': { $gte: 18 } })).toBe(1);
+          expect(await db.count(testTable, { 'settings.theme': { $in: ['dark', 'blue'] } })).toBe(1);
+        });
+
+        it('should update only the nested value', async () => {
+          expect(await db.update(testTable, { 'settings.theme': 'dark', 'settings.font.size': 14 }, { name: 'Onur' })).toBe(1);
+          const row = await db.selectOne(testTable, { name: 'Onur' });
+          expect(row.settings).toEqual({ theme: 'dark', lang: 'tr', font: { size: 14 } });
+          expect(row.profile).toEqual({ city: 'Ankara', age: 25 });
+        });
+
+        it('should project nested fields', async () => {
+          const rows = await db.select(testTable, { name: 'Onur' }, { fields: ['name', 'profile.city', 'settings.lang'] });
+          expect(rows).toEqual([{ name: 'Onur', profile: { city: 'Ankara' }, settings: { lang: 'tr' } }]);
+        });
+
+        it('should list distinct nested values', async () => {
+          await db.insert(testTable, { name: 'Ege', profile: { city: 'Ankara' } });
+          expect((await db.distinct(testTable, 'profile.city')).sort()).toEqual(['Ankara', 'İzmir']);
+          expect(await db.distinct(testTable, 'settings.theme', { 'profile.city': 'Ankara' })).toEqual(['light']);
+        });
+
+        it('should increment nested numbers', async () => {
+          await db.increment(testTable, { 'profile.age': 1, 'profile.visits': 2 }, { 'profile.city': 'İzmir' });
+          const row = await db.selectOne(testTable, { name: 'Ali' });
+          expect(row.profile).toEqual({ city: 'İzmir', age: 18, visits: 2 });
+        });
+      });
+
+      describe('🧮 Field Operations', () => {
+        beforeEach(async () => {
+          await db.insert(testTable, { name: 'Onur', tags: ['a', 'b'], settings: { theme: 'light', lang: 'tr' } });
+        });
+
+        it('should push, pull and add to arrays', async () => {
+          expect(await db.push(testTable, { tags: 'c', roles: 'admin' }, { name: 'Onur' })).toBe(1);
+          await db.addToSet(testTable, { tags: 'a' }, { name: 'Onur' });
+          await db.addToSet(testTable, { tags: 'd' }, { name: 'Onur' });
+          await db.pull(testTable, { tags: 'b' }, { name: 'Onur' });
+          const row = await db.selectOne(testTable, { name: 'Onur' });
+          expect(row.tags).toEqual(['a', 'c', 'd']);
+          expect(row.roles).toEqual(['admin']);
+        });
+
+        it('should merge into and unset fields', async () => {
+          await db.merge(testTable, { settings: { theme: 'dark', font: 14 } }, { name: 'Onur' });
+          expect((await db.selectOne(testTable, { name: 'Onur' })).settings).toEqual({ theme: 'dark', lang: 'tr', font: 14 });
+          await db.unset(testTable, ['settings.lang', 'tags'], { name: 'Onur' });
+          const row = await db.selectOne(testTable, { name: 'Onur' });
+          expect(row.settings).toEqual({ theme: 'dark', font: 14 });
+          expect(row.tags ?? null).toBeNull();
+        });
+
+        it('should not lose concurrent pushes', async () => {
+          await Promise.all(['x', 'y', 'z'].map(tag => db.push(testTable, { tags: tag }, { name: 'Onur' })));
+          const row = await db.selectOne(testTable, { name: 'Onur' });
+          expect([...row.tags].sort()).toEqual(['a', 'b', 'x', 'y', 'z']);
+        });
+      });
+
+      describe('🧱 Query Builder', () => {
+        beforeEach(async () => {
+          await db.bulkInsert(testTable, [
+            { name: 'a', age: 15, role: 'admin', score: 1 },
+            { name: 'b', age: 20, role: 'user', score: 2 },
+            { name: 'c', age: 30, role: 'user', score: 3 },
+            { name: 'd', age: 12, role: 'user', score: 4 }
+          ]);
+        });
+
+        it('should combine where / orWhere with ordering and limits', async () => {
+          const rows = await db.table(testTable).where('age', '>', 18).orWhere('role', 'admin').orderBy('age', 'desc').limit(2).get();
+          expect(rows.map((r: any) => r.name)).toEqual(['c', 'b']);
+          expect(await db.table(testTable).where('age', '>', 18).orWhere('role', 'admin').count()).toBe(3);
+          expect((await db.table(testTable).where('role', 'user').orderBy('age').first())?.name).toBe('d');
+          expect(await db.table(testTable).where('name', 'zzz').exists()).toBe(false);
+        });
+
+        it('should update, increment and delete through the builder', async () => {
+          expect(await db.table(testTable).where('role', 'user').where('age', '<', 25).update({ role: 'junior' })).toBe(2);
+          expect(await db.table(testTable).where('role', 'junior').increment('score', 10)).toBe(2);
+          expect((await db.selectOne(testTable, { name: 'b' })).score).toBe(12);
+          expect(await db.table(testTable).whereIn('name', ['a', 'c']).delete()).toBe(2);
+          expect(await db.count(testTable)).toBe(2);
+        });
+      });
+
+      describe('🛡️ Validation', () => {
+        const validTable = testTable + '_valid';
+
+        beforeAll(() => {
+          db.defineValidation(validTable, {
+            name: { required: true, minLength: 2 },
+            age: { type: 'number', max: 150 }
+          });
+        });
+
+        beforeEach(async () => {
+          await db.delete(validTable, {});
+        });
+
+        it('should reject invalid inserts with every field error', async () => {
+          const error = await db.insert(validTable, { name: 'O', age: 'x' }).catch(e => e);
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.errors.map((e: any) => e.field)).toEqual(['name', 'age']);
+          expect(await db.count(validTable)).toBe(0);
+        });
+
+        it('should validate bulk inserts before writing any row', async () => {
+          const error = await db.bulkInsert(validTable, [{ name: 'Onur' }, { age: 200 }]).catch(e => e);
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.errors).toEqual([
+            expect.objectContaining({ field: 'name', index: 1 }),
+            expect.objectContaining({ field: 'age', index: 1 })
+          ]);
+          expect(await db.count(validTable)).toBe(0);
+        });
+
+        it('should only check the fields an update sets', async () => {
+          await db.insert(validTable, { name: 'Onur', age: 25 });
+          expect(await db.update(validTable, { age: 26 }, { name: 'Onur' })).toBe(1);
+          await expect(db.update(validTable, { name: '' }, { name: 'Onur' })).rejects.toBeInstanceOf(ValidationError);
+          await expect(db.set(validTable, { age: 999 }, { name: 'Onur' })).rejects.toBeInstanceOf(ValidationError);
+          expect((await db.selectOne(validTable, { name: 'Onur' })).age).toBe(26);
+        });
+      });
+
+      describe('🔑 Indexes & Unique Constraints', () => {
+        const indexTable = testTable + '_idx';
+
+        beforeAll(async () => {
+          await db.createIndex(indexTable, 'email', { unique: true });
+          await db.createIndex(indexTable, 'city');
+        });
+
+        beforeEach(async () => {
+          await db.delete(indexTable, {});
+        });
+
+        it('should reject inserts that repeat a unique key', async () => {
+          await db.insert(indexTable, { name: 'Onur', email: 'onur@example.com', city: 'Ankara' });
+          const error = await db.insert(indexTable, { name: 'Ege', email: 'onur@example.com', city: 'Ankara' }).catch(e => e);
+          expect(error).toBeInstanceOf(UniqueConstraintError);
+          expect(error).toMatchObject({ table: indexTable, fields: ['email'] });
+          await expect(db.bulkInsert(indexTable, [{ name: 'A', email: 'a@example.com' }, { name: 'B', email: 'onur@example.com' }]))
+            .rejects.toBeInstanceOf(UniqueConstraintError);
+          expect(await db.count(indexTable, { email: 'onur@example.com' })).toBe(1);
+        });
+
+        it('should reject updates and upserts that repeat a unique key', async () => {
+          await db.insert(indexTable, { name: 'Onur', email: 'onur@example.com' });
+          await db.insert(indexTable, { name: 'Ege', email: 'ege@example.com' });
+          await expect(db.update(indexTable, { email: 'onur@example.com' }, { name: 'Ege' })).rejects.toBeInstanceOf(UniqueConstraintError);
+          await expect(db.set(indexTable, { email: 'ege@example.com' }, { name: 'Ali' })).rejects.toBeInstanceOf(UniqueConstraintError);
+          expect(await db.update(indexTable, { email: 'onur@example.com', city: 'İzmir' }, { name: 'Onur' })).toBe(1);
+          expect((await db.selectOne(indexTable, { name: 'Ege' })).email).toBe('ege@example.com');
+        });
+
+        it('should not constrain missing values or non-unique indexes', async () => {
+          await db.insert(indexTable, { name: 'A', city: 'Ankara' });
+          await db.insert(indexTable, { name: 'B', city: 'Ankara' });
+          const rows = await db.select(indexTable, { city: 'Ankara' });
+          expect(rows.map((r: any) => r.name).sort()).toEqual(['A', 'B']);
+        });
+
+        it('should refuse a unique index over rows that already repeat a key', async () => {
+          const dupTable = testTable + '_dup';
+          await db.insert(dupTable, { email: 'x@example.com' });
+          await db.insert(dupTable, { email: 'x@example.com' });
+          await expect(db.createIndex(dupTable, 'email', { unique: true })).rejects.toBeInstanceOf(UniqueConstraintError);
+          await db.insert(dupTable, { email: 'x@example.com' });
+          expect(await db.count(dupTable)).toBe(3);
+        });
+
+        (['JSON', 'TOON'].includes(name) ? it : it.skip)('should keep index definitions in the file', async () => {
+          const { adapter, config } = options as any;
+          const file = `${config.path}.idx`;
+          const first = createDatabase({ adapter, config: { ...config, path: file } } as DatabaseOptions);
+          await first.createIndex('people', 'email', { unique: true });
+          await first.insert('people', { email: 'onur@example.com' });
+          await first.close();
+          const second = createDatabase({ adapter, config: { ...config, path: file } } as DatabaseOptions);
+          try {
+            await expect(second.insert('people', { email: 'onur@example.com' })).rejects.toBeInstanceOf(UniqueConstraintError);
+            expect(await second.select('people')).toHaveLength(1);
+          } finally {
+            await second.close();
+            fs.unlinkSync(file);
+          }
+        });
+      });
+
+      describe('🔗 Relations', () => {
+        const usersTable = testTable + '_rel_users';
+        const ordersTable = testTable + '_rel_orders';
+        const itemsTable = testTable + '_rel_items';
+
+        beforeAll(() => {
+          db.defineRelation(ordersTable, 'user', { type: 'belongsTo', table: usersTable, foreignKey: 'userId' });
+          db.defineRelation(ordersTable, 'items', { type: 'hasMany', table: itemsTable, foreignKey: 'orderId' });
+          db.defineRelation(usersTable, 'orders', { type: 'hasMany', table: ordersTable, foreignKey: 'userId' });
+        });
+
+        beforeEach(async () => {
+          for (const table of [usersTable, ordersTable, itemsTable]) await db.delete(table, {});
+          const onur = await db.insert(usersTable, { name: 'Onur' });
+          const ege = await db.insert(usersTable, { name: 'Ege' });
+          const first = await db.insert(ordersTable, { no: 1, userId: onur });
+          await db.insert(ordersTable, { no: 2, userId: ege });
+          await db.insert(ordersTable, { no: 3, userId: onur });
+          await db.insert(itemsTable, { orderId: first, sku: 'a' });
+          await db.insert(itemsTable, { orderId: first, sku: 'b' });
+        });
+
+        it('should load belongsTo and hasMany relations with one query each', async () => {
+          const spy = jest.spyOn(db, 'select');
+          const orders = await db.select(ordersTable, {}, { orderBy: { no: 'asc' }, include: ['user', 'items'] });
+          // SQL adapters join and MongoDB uses $lookup; the others select each relation with $in
+          const joined = ['sqlite', 'mysql', 'postgres', 'mongodb'].includes((options as any).adapter);
+          expect(spy).toHaveBeenCalledTimes(joined ? 2 : 4);
+          spy.mockRestore();
+          expect(orders.map((o: any) => o.user.name)).toEqual(['Onur', 'Ege', 'Onur']);
+          expect(orders.map((o: any) => o.items.map((i: any) => i.sku).sort())).toEqual([['a', 'b'], [], []]);
+        });
+
+        it('should load nested relations and keep projections', async () => {
+          const users = await db.select(usersTable, { name: 'Onur' }, { fields: ['name'], include: ['orders.items'] });
+          expect(users).toHaveLength(1);
+          expect(Object.keys(users[0]).sort()).toEqual(['name', 'orders']);
+          expect(users[0].orders.map((o: any) => o.no).sort()).toEqual([1, 3]);
+          expect(users[0].orders.flatMap((o: any) => o.items).length).toBe(2);
+        });
+
+        it('should leave out soft-deleted related rows', async () => {
+          const postsTable = testTable + '_rel_posts';
+          const commentsTable = testTable + '_rel_comments';
+          db.defineTable(commentsTable, { softDelete: true });
+          db.defineRelation(postsTable, 'comments', { type: 'hasMany', table: commentsTable, foreignKey: 'postId' });
+          const post = await db.insert(postsTable, { title: 'x' });
+          await db.insert(commentsTable, { postId: post, text: 'a' });
+          await db.insert(commentsTable, { postId: post, text: 'b' });
+          await db.delete(commentsTable, { text: 'a' });
+          const [loaded] = await db.select(postsTable, { title: 'x' }, { include: ['comments'] });
+          expect(loaded.comments.map((c: any) => c.text)).toEqual(['b']);
+        });
+
+        it('should reject unknown relations', async () => {
+          await expect(db.select(ordersTable, {}, { include: ['customer'] })).rejects.toThrow('customer');
+        });
+      });
+
+      describe('🪝 Hooks', () => {
+        const hooksTable = testTable + '_hooks';
+        const types: HookType[] = [
+          'beforeSelect', 'afterSelect', 'beforeInsert', 'afterInsert', 'beforeBulkInsert', 'afterBulkInsert',
+          'beforeUpdate', 'afterUpdate', 'beforeUpsert', 'afterUpsert', 'beforeDelete', 'afterDelete',
+          'beforeIncrement', 'afterIncrement', 'beforeDecrement', 'afterDecrement',
+        ];
+        const fired: string[] = [];
+        const recorders = types.map(type => [type, (table: string) => { if (table === hooksTable) fired.push(type); }] as const);
+
+        beforeAll(() => {
+          for (const [type, fn] of recorders) db.on(type, fn);
+        });
+
+        afterAll(() => {
+          for (const [type, fn] of recorders) db.off(type, fn);
+        });
+
+        beforeEach(async () => {
+          await db.delete(hooksTable, {});
+          fired.length = 0;
+        });
+
+        it('should fire the same hooks in the same order on every adapter', async () => {
+          await db.insert(hooksTable, { name: 'a', n: 1 });
+          await db.bulkInsert(hooksTable, [{ name: 'b', n: 1 }, { name: 'c', n: 1 }]);
+          await db.select(hooksTable, { name: 'a' });
+          await db.selectOne(hooksTable, { name: 'a' });
+          await db.update(hooksTable, { n: 2 }, { name: 'a' });
+          await db.set(hooksTable, { n: 3 }, { name: 'a' });
+          await db.set(hooksTable, { n: 1 }, { name: 'd' });
+          await db.increment(hooksTable, { n: 1 }, { name: 'b' });
+          await db.decrement(hooksTable, { n: 1 }, { name: 'b' });
+          await db.delete(hooksTable, { name: 'c' });
+
+          expect(fired).toEqual([
+            'beforeInsert', 'afterInsert',
+            'beforeBulkInsert', 'afterBulkInsert',
+            'beforeSelect', 'afterSelect',
+            'beforeSelect', 'afterSelect',
+            'beforeUpdate', 'afterUpdate',
+            'beforeUpsert', 'afterUpsert',
+            'beforeUpsert', 'afterUpsert',
+            'beforeIncrement', 'afterIncrement',
+            'beforeDecrement', 'afterDecrement',
+            'beforeDelete', 'afterDelete',
+          ]);
+        });
+
+        it('should let before-hooks replace the payload', async () => {
+          const stamp = (table: string, data: any) => table === hooksTable ? { ...data, source: 'hook' } : undefined;
+          const onlyB = (table: string, query: any) => table === hooksTable ? { ...query, where: { name: 'b' } } : undefined;
+          const seen: any[] = [];
+          const after = (table: string, result: any) => { if (table === hooksTable) seen.push(result); };
+          db.on('beforeInsert', stamp);
+          db.on('afterUpdate', after);
+          try {
+            await db.insert(hooksTable, { name: 'a' });
+            await db.insert(hooksTable, { name: 'b' });
+            db.on('beforeSelect', onlyB);
+            const rows = await db.select(hooksTable, { name: 'a' });
+            db.off('beforeSelect', onlyB);
+            expect(rows.map((r: any) => [r.name, r.source])).toEqual([['b', 'hook']]);
+
+            await db.update(hooksTable, { source: 'update' }, { name: 'a' });
+            expect(seen).toEqual([{ data: { source: 'update' }, where: { name: 'a' }, affected: 1 }]);
+          } finally {
+            db.off('beforeInsert', stamp);
+            db.off('afterUpdate', after);
+          }
+        });
+
+        it('should cancel the call when a before-hook throws', async () => {
+          await db.insert(hooksTable, { name: 'a', n: 1 });
+          const veto = (table: string) => { if (table === hooksTable) throw new Error('veto'); };
+          db.on('beforeDelete', veto);
+          db.on('beforeIncrement', veto);
+          try {
+            await expect(db.delete(hooksTable, { name: 'a' })).rejects.toThrow('veto');
+            await expect(db.increment(hooksTable, { n: 1 }, { name: 'a' })).rejects.toThrow('veto');
+          } finally {
+            db.off('beforeDelete', veto);
+            db.off('beforeIncrement', veto);
+          }
+          expect(Number((await db.selectOne(hooksTable, { name: 'a' })).n)).toBe(1);
+          expect(fired).not.toContain('afterDelete');
+        });
+      });
+
+      describe('🕰️ Timestamps & Soft Delete', () => {
+        const postsTable = testTable + '_posts';
+        const time = (value: any) => new Date(value).getTime();
+
+        beforeAll(() => {
+          db.defineTable(postsTable, { timestamps: true, softDelete: true });
+        });
+
+        beforeEach(async () => {
+          await db.forceDelete(postsTable, {});
+        });
+
+        it('should stamp createdAt and updatedAt on writes', async () => {
+          const before = Date.now() - 1000;
+          await db.insert(postsTable, { title: 'a', views: 0 });
+          await db.bulkInsert(postsTable, [{ title: 'b', views: 0 }]);
+          await db.set(postsTable, { views: 5 }, { title: 'c' });
+          const rows = await db.select(postsTable, {}, { orderBy: { title: 'asc' } });
+          expect(rows).toHaveLength(3);
+          for (const row of rows) {
+            expect(time(row.createdAt)).toBeGreaterThanOrEqual(before);
+            expect(time(row.updatedAt)).toBeGreaterThanOrEqual(time(row.createdAt));
+          }
+
+          await db.update(postsTable, { updatedAt: new Date(0) }, {});
+          await db.increment(postsTable, { views: 1 }, { title: 'a' });
+          await db.set(postsTable, { views: 9 }, { title: 'c' });
+          const touched = await db.select(postsTable, { updatedAt: { $gt: new Date(before) } });
+          expect(touched.map((r: any) => r.title).sort()).toEqual(['a', 'c']);
+          expect((await db.selectOne(postsTable, { title: 'a' })).views).toBe(1);
+        });
+
+        it('should hide soft-deleted rows until they are restored', async () => {
+          await db.bulkInsert(postsTable, [{ title: 'a' }, { title: 'b' }, { title: 'c' }]);
+          expect(await db.delete(postsTable, { title: 'b' })).toBe(1);
+
+          expect((await db.select(postsTable)).map((r: any) => r.title).sort()).toEqual(['a', 'c']);
+          expect(await db.selectOne(postsTable, { title: 'b' })).toBeNull();
+          expect(await db.count(postsTable)).toBe(2);
+          expect(await db.exists(postsTable, { title: 'b' })).toBe(false);
+          expect(await db.update(postsTable, { views: 1 }, { title: 'b' })).toBe(0);
+          expect(await db.count(postsTable, { deletedAt: { $exists: true } })).toBe(1);
+
+          const all = await db.select(postsTable, {}, { withDeleted: true });
+          expect(all).toHaveLength(3);
+          expect(all.find((r: any) => r.title === 'b').deletedAt).toBeTruthy();
+
+          expect(await db.restore(postsTable, { title: 'b' })).toBe(1);
+          expect(await db.count(postsTable)).toBe(3);
+        });
+
+        it('should remove rows for good with forceDelete', async () => {
+          await db.bulkInsert(postsTable, [{ title: 'a' }, { title: 'b' }]);
+          await db.delete(postsTable, { title: 'a' });
+          expect(await db.forceDelete(postsTable, {})).toBe(2);
+          expect(await db.select(postsTable, {}, { withDeleted: true })).toEqual([]);
+          await expect(db.restore(testTable, {})).rejects.toThrow(testTable);
+        });
+      });
+
+      describe('🔢 Optimistic Concurrency', () => {
+        const docsTable = testTable + '_docs';
+
+        beforeAll(() => {
+          db.defineTable(docsTable, { versioned: true });
+        });
+
+        beforeEach(async () => {
+          await db.delete(docsTable, {});
+        });
+
+        it('should bump _version on every write', async () => {
+          const id = await db.insert(docsTable, { title: 'a', views: 0 });
+          await db.bulkInsert(docsTable, [{ title: 'b' }]);
+          expect((await db.selectOne(docsTable, { title: 'b' }))._version).toBe(1);
+          expect((await db.selectOne(docsTable, { _id: id }))._version).toBe(1);
+
+          await db.update(docsTable, { title: 'a2' }, { _id: id });
+          await db.increment(docsTable, { views: 2 }, { _id: id });
+          await db.set(docsTable, { views: 5 }, { _id: id });
+          const row = await db.selectOne(docsTable, { _id: id });
+          expect(row).toMatchObject({ title: 'a2', views: 5, _version: 4 });
+        });
+
+        it('should let only one of two writers with the same expectedVersion win', async () => {
+          const id = await db.insert(docsTable, { title: 'a' });
+          const results = await Promise.allSettled([
+            db.update(docsTable, { title: 'x' }, { _id: id }, { expectedVersion: 1 }),
+            db.update(docsTable, { title: 'y' }, { _id: id }, { expectedVersion: 1 }),
+          ]);
+          expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+          const failed = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
+          expect(failed.reason).toBeInstanceOf(ConcurrencyError);
+          expect(failed.reason).toMatchObject({ table: docsTable, expectedVersion: 1, actualVersion: 2 });
+          expect((await db.selectOne(docsTable, { _id: id }))._version).toBe(2);
+
+          await expect(db.set(docsTable, { title: 'z' }, { _id: id }, { expectedVersion: 1 })).rejects.toThrow(ConcurrencyError);
+          expect(await db.set(docsTable, { title: 'z' }, { _id: id }, { expectedVersion: 2 })).toBe(1);
+          await expect(db.set(docsTable, { title: 'n' }, { title: 'missing' }, { expectedVersion: 1 })).rejects.toThrow(ConcurrencyError);
+          await expect(db.update(testTable, { a: 1 }, {}, { expectedVersion: 1 })).rejects.toThrow('versioned');
+        });
+      });
+
+      describe('📡 Change Feed', () => {
+        const feedTable = testTable + '_feed';
+        // Shared feeds (NOTIFY, pub/sub, change streams) deliver asynchronously
+        const received = async (events: any[], count: number) => {
+          for (let i = 0; i < 100 && events.length < count; i++) await new Promise(r => setTimeout(r, 20));
+          return events;
+        };
+
+        beforeEach(async () => {
+          await db.delete(feedTable, {});
+        });
+
+        it('should report inserts, updates and deletes with the rows before and after', async () => {
+          const stream = db.watch(feedTable);
+          const events: any[] = [];
+          stream.on('change', event => events.push(event));
+          await stream.ready;
+
+          await db.insert(feedTable, { name: 'a', n: 1 });
+          await db.update(feedTable, { n: 2 }, { name: 'a' });
+          await db.increment(feedTable, { n: 1 }, { name: 'a' });
+          await db.delete(feedTable, { name: 'a' });
+          await db.insert(testTable, { name: 'elsewhere' });
+          await received(events, 4);
+          stream.close();
+
+          expect(events.map(e => [e.op, e.table])).toEqual([['insert', feedTable], ['update', feedTable], ['update', feedTable], ['delete', feedTable]]);
+          expect(events[0]).toMatchObject({ before: null, after: { name: 'a', n: 1 } });
+          expect(events[1].after).toMatchObject({ name: 'a', n: 2 });
+          expect(Number(events[2].after.n)).toBe(3);
+          expect(events[3]).toMatchObject({ after: null });
+          expect(String(events[3].before._id)).toBe(String(events[0].after._id));
+          if (name !== 'MongoDB') expect(Number(events[2].before.n)).toBe(2); // pre-images are opt-in on Mongo
+          expect(typeof events[0].ts).toBe('number');
+        });
+
+        it('should filter rows and stop after close', async () => {
+          const stream = db.watch(feedTable, { name: 'b' });
+          const events: any[] = [];
+          stream.on('change', event => events.push(event));
+          await stream.ready;
+
+          await db.insert(feedTable, { name: 'a' });
+          await db.insert(feedTable, { name: 'b' });
+          await db.update(feedTable, { name: 'c' }, { name: 'b' });
+          await received(events, 2);
+          stream.close();
+          await db.insert(feedTable, { name: 'b' });
+          await new Promise(r => setTimeout(r, 50));
+
+          expect(events.map(e => e.op)).toEqual(['insert', 'update']);
+        });
+
+        it('should be iterable with for await', async () => {
+          const stream = db.watch<{ name: string }>(feedTable);
+          await stream.ready;
+          await db.bulkInsert(feedTable, [{ name: 'a' }, { name: 'b' }]);
+
+          const names: string[] = [];
+          for await (const event of stream) {
+            names.push(event.after!.name);
+            if (names.length === 2) break;
+          }
+          expect(names.sort()).toEqual(['a', 'b']);
+        });
+
+        it('should publish transaction changes only once they commit', async () => {
+          const stream = db.watch(feedTable);
+          const events: any[] = [];
+          stream.on('change', event => events.push(event));
+          await stream.ready;
+
+          await expect(db.transaction(async (tx) => {
+            await tx.insert(feedTable, { name: 'rolled back' });
+            throw new Error('abort');
+          })).rejects.toThrow('abort');
+          await db.transaction(async (tx) => {
+            await tx.insert(feedTable, { name: 'committed' });
+            expect(events).toHaveLength(0);
+          });
+          await received(events, 1);
+          stream.close();
+
+          expect(events.map(e => e.after.name)).toEqual(['committed']);
+        });
+      });
+
+      describe('🧩 Typed Models', () => {
+        it('should read and write through a typed model', async () => {
+          const users = db.model<{ name: string; age: number }>(testTable);
+          await users.insert({ name: 'Onur', age: 25 });
+          await users.update({ age: 26 }, { name: 'Onur' });
+          expect((await users.selectOne({ name: 'Onur' }))?.age).toBe(26);
+          expect(await users.count({ age: { $gt: 20 } })).toBe(1);
+        });
+      });
+
+      describe('💳 Transactions', () => {
+        const inserted: any[] = [];
+
+        beforeAll(() => {
+          db.on('afterInsert', (table, data) => { if (table === testTable) inserted.push(data); });
+        });
+
+        beforeEach(async () => {
+          inserted.length = 0;
+          await db.insert(testTable, { name: 'Onur', balance: 100 });
+          inserted.length = 0;
+        });
+
+        it('should commit all writes together', async () => {
+          const result = await db.transaction(async (tx) => {
+            await tx.insert(testTable, { name: 'Ege', balance: 50 });
+            await tx.decrement(testTable, { balance: 30 }, { name: 'Onur' });
+            await tx.increment(testTable, { balance: 30 }, { name: 'Ege' });
+            expect(inserted).toHaveLength(0);
+            return 'done';
+          });
+
+          expect(result).toBe('done');
+          expect(inserted.map(r => r.name)).toEqual(['Ege']);
+          const rows = await db.select(testTable, null, { orderBy: { name: 'asc' } });
+          expect(rows.map(r => [r.name, Number(r.balance)])).toEqual([['Ege', 80], ['Onur', 70]]);
+        });
+
+        it('should roll back every write when the callback throws', async () => {
+          await expect(db.transaction(async (tx) => {
+            await tx.insert(testTable, { name: 'Ege', balance: 50 });
+            await tx.update(testTable, { balance: 0 }, { name: 'Onur' });
+            await tx.delete(testTable, { name: 'Onur' });
+            throw new Error('abort');
+          })).rejects.toThrow('abort');
+
+          expect(inserted).toHaveLength(0);
+          const rows = await db.select(testTable);
+          expect(rows).toHaveLength(1);
+          expect(rows[0].name).toBe('Onur');
+          expect(Number(rows[0].balance)).toBe(100);
+        });
+
+        it('should not expose uncommitted writes to other callers', async () => {
+          let release!: () => void;
+          const gate = new Promise<void>(resolve => release = resolve);
+          const tx = db.transaction(async (t) => {
+            await t.update(testTable, { balance: 1 }, { name: 'Onur' });
+            await gate;
+            throw new Error('abort');
+          });
+          const read = db.selectOne(testTable, { name: 'Onur' });
+          release();
+          await expect(tx).rejects.toThrow('abort');
+          expect(Number((await read).balance)).toBe(100);
+        });
+
+        it('should not stream uncommitted writes to other callers', async () => {
+          let release!: () => void;
+          let written!: () => void;
+          const gate = new Promise<void>(resolve => release = resolve);
+          const updated = new Promise<void>(resolve => written = resolve);
+          const tx = db.transaction(async (t) => {
+            await t.update(testTable, { balance: 1 }, { name: 'Onur' });
+            written();
+            await gate;
+            throw new Error('abort');
+          });
+          await updated;
+          const streamed = (async () => {
+            const rows: any[] = [];
+            for await (const row of db.stream(testTable, { name: 'Onur' })) rows.push(row);
+            return rows;
+          })();
+          release();
+          await expect(tx).rejects.toThrow('abort');
+          expect((await streamed).map(row => Number(row.balance))).toEqual([100]);
+        });
+      });
+
       describe('🔥 Advanced & Stress Tests', () => {
 
         it('should handle atomic concurrent increments (Race Condition Check)', async () => {
@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import createDatabase, { IDatabase, LocalCacheBus, ConcurrencyError } from '../../database';
+import CacheWrapper from '../../database/cacheWrapper';
+import { telemetry } from '../../database/telemetry';
+
+describe('CacheWrapper', () => {
+  const file = path.join(os.tmpdir(), `zerohelper_cache_${process.pid}.json`);
+  let db: IDatabase;
+  let reads: jest.SpyInstance;
+  let a: any;
+  let b: any;
+
+  // Runs the reads and returns how many of them missed the cache
+  const misses = async (...calls: Array<() => Promise<any>>) => {
+    reads.mockClear();
+    for (const call of calls) await call();
+    return reads.mock.calls.length;
+  };
+
+  beforeEach(async () => {
+    db = createDatabase({ adapter: 'json', config: { path: file, cache: { type: 'memory' } } } as any);
+    await db.delete('users', {});
+    a = await db.insert('users', { name: 'a', city: 'Ankara' });
+    b = await db.insert('users', { name: 'b', city: 'Bursa' });
+    reads = jest.spyOn(telemetry, 'recordCacheMiss');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  });
+
+  const inAnkara = () => db.select('users', { city: 'Ankara' });
+  const inBursa = () => db.select('users', { city: 'Bursa' });
+  const userA = () => db.selectOne('users', { _id: a });
+
+  it('should only evict the entries an update affects', async () => {
+    expect(await misses(inAnkara, inBursa, userA)).toBe(3);
+    expect(await misses(inAnkara, inBursa, userA)).toBe(0);
+
+    await db.update('users', { name: 'b2' }, { _id: b });
+    expect(await misses(inAnkara, inBursa, userA)).toBe(1);
+
+    await db.update('users', { city: 'Bursa' }, { name: 'a' });
+    expect(await misses(inAnkara, inBursa, userA)).toBe(3);
+    expect((await inBursa()).map((r: any) => r.name).sort()).toEqual(['a', 'b2']);
+  });
+
+  it('should keep reads pinned by _id across inserts and evict deleted rows', async () => {
+    await misses(inAnkara, userA);
+    await db.insert('users', { name: 'c', city: 'Ankara' });
+    expect(await misses(inAnkara, userA)).toBe(1);
+
+    await db.delete('users', { _id: b });
+    expect(await misses(inAnkara, userA)).toBe(0);
+    await db.delete('users', { _id: a });
+    expect(await misses(inAnkara, userA)).toBe(2);
+  });
+
+  it('should invalidate by tag or whole table on request', async () => {
+    await misses(inAnkara, inBursa);
+    await db.cache!.invalidate({ table: 'users', tags: [`id:${b}`] });
+    expect(await misses(inAnkara, inBursa)).toBe(1);
+
+    await db.cache!.invalidate({ table: 'users' });
+    expect(await misses(inAnkara, inBursa)).toBe(2);
+  });
+
+  it('should evict tables written inside a transaction once it commits', async () => {
+    await misses(userA);
+    await db.transaction(async tx => { await tx.push('users', { tags: 'x' }, { _id: a }); });
+    expect(await misses(userA)).toBe(1);
+    expect((await userA()).tags).toEqual(['x']);
+  });
+
+  it('should evict other caches sharing a bus', async () => {
+    const bus = new LocalCacheBus();
+    const inner = (db as any).db;
+    const first = new CacheWrapper(inner, { type: 'memory', bus });
+    const second = new CacheWrapper(inner, { type: 'memory', bus });
+    const read = () => second.select('users', { city: 'Ankara' });
+
+    expect(await misses(read, read)).toBe(1);
+    await first.update('users', { name: 'a2' }, { _id: a });
+    expect(await misses(read)).toBe(1);
+    expect((await read())[0].name).toBe('a2');
+  });
+
+  it('should coalesce identical misses into one read', async () => {
+    const inner = (db as any).db;
+    const selects = jest.spyOn(inner, 'select');
+    const coalesced = jest.spyOn(telemetry, 'recordCacheCoalesced');
+    const results = await Promise.all([inAnkara(), inAnkara(), inAnkara()]);
+    expect(selects).toHaveBeenCalledTimes(1);
+    expect(coalesced).toHaveBeenCalledTimes(2);
+    expect(results.every(rows => rows[0].name === 'a')).toBe(true);
+    selects.mockRestore();
+  });
+
+  it('should serve stale entries while revalidating or when the refresh fails', async () => {
+    const inner = (db as any).db;
+    const cache = new CacheWrapper(inner, { type: 'memory', ttl: 50, staleWhileRevalidate: 200, staleIfError: 2000 });
+    const stale = jest.spyOn(telemetry, 'recordCacheStale');
+    const read = () => cache.selectOne('users', { _id: a });
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    await read();
+    await wait(60);
+    await inner.update('users', { name: 'a2' }, { _id: a });
+    expect((await read()).name).toBe('a');
+    await wait(10);
+    expect((await read()).name).toBe('a2');
+
+    await wait(300);
+    const failing = jest.spyOn(inner, 'selectOne').mockRejectedValue(new Error('down'));
+    expect((await read()).name).toBe('a2');
+    expect(stale).toHaveBeenCalledTimes(2);
+    failing.mockRestore();
+  });
+
+  it('should apply per-table policies and per-call cache options', async () => {
+    const inner = (db as any).db;
+    const cache = new CacheWrapper(inner, { type: 'memory', tables: { sessions: { enabled: false }, users: { ttl: 30 } } });
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    await inner.insert('sessions', { token: 't' });
+
+    expect(await misses(() => cache.select('sessions'), () => cache.select('sessions'))).toBe(0);
+    expect(await misses(() => cache.select('users'), () => cache.select('users'))).toBe(1);
+    await wait(40);
+    expect(await misses(() => cache.select('users'))).toBe(1);
+
+    const selects = jest.spyOn(inner, 'select');
+    await cache.select('users', null, { cache: false });
+    expect(selects).toHaveBeenCalledWith('users', null, {});
+    expect(await misses(() => cache.selectOne('users', { _id: a }, { cache: { ttl: 60000 } }))).toBe(1);
+    await wait(40);
+    expect(await misses(() => cache.selectOne('users', { _id: a }))).toBe(0);
+    selects.mockRestore();
+  });
+
+  it('should keep per-read cache options on tables with table options', async () => {
+    db.defineTable('notes', { timestamps: true, softDelete: true });
+    const id = await db.insert('notes', { text: 'a' });
+    const reads = jest.spyOn((db as any).db, 'selectOne');
+    const note = (options?: any) => db.selectOne('notes', { _id: id }, options);
+
+    await note({ cache: false });
+    await note({ cache: false });
+    expect(reads).toHaveBeenCalledTimes(2);
+    await note();
+    await note();
+    expect(reads).toHaveBeenCalledTimes(3);
+    reads.mockRestore();
+    await db.forceDelete('notes', {});
+  });
+
+  it('should cache missing rows only with a negativeTtl, until an insert', async () => {
+    const missing = () => db.selectOne('users', { name: 'z' });
+    expect(await misses(missing, missing)).toBe(2);
+
+    const cache = new CacheWrapper((db as any).db, { type: 'memory', negativeTtl: 60000 });
+    const lookup = () => cache.selectOne('users', { name: 'z' });
+    expect(await misses(lookup, lookup)).toBe(1);
+    expect(await lookup()).toBeNull();
+    await cache.insert('users', { name: 'z', city: 'Izmir' });
+    expect((await lookup()).city).toBe('Izmir');
+  });
+
+  it('should check expectedVersion on versioned tables', async () => {
+    db.defineTable('docs', { versioned: true });
+    const id = await db.insert('docs', { title: 'a' });
+    expect((await db.selectOne('docs', { _id: id }))._version).toBe(1);
+
+    expect(await db.update('docs', { title: 'b' }, { _id: id }, { expectedVersion: 1 })).toBe(1);
+    expect((await db.selectOne('docs', { _id: id }))).toMatchObject({ title: 'b', _version: 2 });
+    await expect(db.update('docs', { title: 'c' }, { _id: id }, { expectedVersion: 1 })).rejects.toThrow(ConcurrencyError);
+    await db.delete('docs', {});
+  });
+
+  it('should answer selectOne from a cached select on the same where', async () => {
+    expect(await misses(inBursa, () => db.selectOne('users', { city: 'Bursa' }))).toBe(1);
+    expect((await db.selectOne('users', { city: 'Bursa' })).name).toBe('b');
+    expect(await misses(() => db.selectOne('users', { city: 'Izmir' }))).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { ChangeStream } from '../../database/changes';
+import { ChangeEvent } from '../../database/types';
+
+describe('ChangeStream', () => {
+  const event = (table: string, after: any, before: any = null): ChangeEvent => ({ op: 'update', table, before, after, ts: 0 });
+
+  it('should match by table and by the row before or after the change', () => {
+    const stream = new ChangeStream('users', { active: true }, () => {});
+    expect(stream.matches(event('users', { active: true }))).toBe(true);
+    expect(stream.matches(event('users', { active: false }, { active: true }))).toBe(true);
+    expect(stream.matches(event('users', { active: false }))).toBe(false);
+    expect(stream.matches(event('orders', { active: true }))).toBe(false);
+    expect(new ChangeStream(undefined, null, () => {}).matches(event('orders', {}))).toBe(true);
+  });
+
+  it('should queue events for iterators and end when closed', async () => {
+    const onClose = jest.fn();
+    const stream = new ChangeStream('users', null, onClose);
+    const iterator = stream[Symbol.asyncIterator]();
+    stream.push(event('users', { n: 1 }));
+    stream.push(event('users', { n: 2 }));
+    const pending = (async () => { await iterator.next(); await iterator.next(); return iterator.next(); })();
+    stream.push(event('users', { n: 3 }));
+
+    expect((await pending).value.after).toEqual({ n: 3 });
+    const last = iterator.next();
+    stream.close();
+    expect(await last).toEqual({ value: undefined, done: true });
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject waiting iterators when the feed fails', async () => {
+    const stream = new ChangeStream('users', null, () => {});
+    const errors: any[] = [];
+    stream.on('error', error => errors.push(error));
+    const next = stream[Symbol.asyncIterator]().next();
+    stream.fail(new Error('gone'));
+    await expect(next).rejects.toThrow('gone');
+    expect(errors).toHaveLength(1);
+  });
+});
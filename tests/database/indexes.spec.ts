@@ -0,0 +1,57 @@
+import { normalizeIndex, indexValues, indexKey, assertUnique, createIndexSql, MemoryIndex } from '../../database/indexes';
+import { UniqueConstraintError } from '../../database/errors';
+
+describe('Indexes', () => {
+  const email = normalizeIndex('users', 'email', { unique: true });
+  const pair = normalizeIndex('users', ['team', 'profile.handle'], { unique: true });
+
+  it('should name indexes after their table and fields', () => {
+    expect(email).toEqual({ name: 'uq_users_email', fields: ['email'], unique: true });
+    expect(pair.name).toBe('uq_users_team_profile_handle');
+    expect(normalizeIndex('users', 'age').name).toBe('idx_users_age');
+    expect(normalizeIndex('users', 'age', { name: 'by_age' }).name).toBe('by_age');
+    expect(() => normalizeIndex('users', [])).toThrow('users');
+  });
+
+  it('should compare keys as text and skip rows with missing fields', () => {
+    expect(indexKey(indexValues({ email: 5 }, email)!)).toBe(indexKey(indexValues({ email: '5' }, email)!));
+    expect(indexValues({ team: 'a', profile: { handle: 'x' } }, pair)).toEqual(['a', 'x']);
+    expect(indexValues({ team: 'a', profile: {} }, pair)).toBeNull();
+    expect(indexValues({ email: null }, email)).toBeNull();
+  });
+
+  it('should reject rows that repeat a unique key', () => {
+    const rows = [{ email: 'a' }, { email: 'b' }, {}, { email: null }, {}];
+    expect(() => assertUnique('users', [email], rows)).not.toThrow();
+    expect(() => assertUnique('users', [normalizeIndex('users', 'email')], [...rows, { email: 'a' }])).not.toThrow();
+
+    const error = (() => { try { assertUnique('users', [email], [...rows, { email: 'a' }]); } catch (e) { return e; } })() as UniqueConstraintError;
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error).toMatchObject({ table: 'users', fields: ['email'], values: ['a'] });
+  });
+
+  it('should keep in-memory indexes in step with writes', () => {
+    const rows = [{ _id: 1, email: 'a', city: 'X' }, { _id: 2, email: 'b', city: 'X' }, { _id: 3, city: 'Y' }];
+    const index = new MemoryIndex('users', [email, normalizeIndex('users', 'city')], rows);
+    expect(index.candidates({ city: 'X' })!.map(r => r._id)).toEqual([1, 2]);
+    expect(index.candidates({ city: { $ne: 'X' } })).toBeNull();
+    expect(() => index.check([{ _id: 4, email: 'a' }])).toThrow(UniqueConstraintError);
+    expect(() => index.check([{ _id: 4, email: 'c' }, { _id: 5, email: 'c' }])).toThrow(UniqueConstraintError);
+    // A row may keep its own key when it is rewritten
+    expect(() => index.check([{ ...rows[0], city: 'Y' }], [rows[0]])).not.toThrow();
+
+    index.remove([rows[0]]);
+    index.add([{ ...rows[0], city: 'Y' }]);
+    expect(index.candidates({ city: 'Y' })!.map(r => r._id)).toEqual([1, 3]);
+    expect(index.candidates({ email: 'a', city: 'X' })!.map(r => r._id)).toEqual([1]);
+    expect(() => new MemoryIndex('users', [email], [...rows, { _id: 4, email: 'a' }])).toThrow(UniqueConstraintError);
+  });
+
+  it('should render CREATE INDEX for top-level columns only', () => {
+    const quote = (name: string) => `"${name}"`;
+    expect(createIndexSql('users', email, quote)).toBe('CREATE UNIQUE INDEX IF NOT EXISTS "uq_users_email" ON "users" ("email")');
+    expect(createIndexSql('users', normalizeIndex('users', ['a', 'b']), quote, c => `${quote(c)}(255)`, false))
+      .toBe('CREATE INDEX "idx_users_a_b" ON "users" ("a"(255), "b"(255))');
+    expect(() => createIndexSql('users', pair, quote)).toThrow('profile.handle');
+  });
+});
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import createDatabase, { IDatabase } from '../../database';
+
+interface User {
+  name: string;
+  age: number;
+  role: 'admin' | 'user';
+}
+
+describe('Typed Models', () => {
+  const JSON_FILE = './test_models.json';
+  let db: IDatabase;
+
+  beforeAll(() => {
+    db = createDatabase({ adapter: 'json', config: { path: JSON_FILE } });
+  });
+
+  afterAll(async () => {
+    await db.close();
+    if (fs.existsSync(JSON_FILE)) fs.unlinkSync(JSON_FILE);
+  });
+
+  it('should forward typed calls to the adapter', async () => {
+    const users = db.model<User>('users');
+    await users.bulkInsert([{ name: 'Onur', age: 25, role: 'admin' }, { name: 'Ali', age: 17, role: 'user' }]);
+    await users.increment({ age: 1 }, { name: 'Ali' });
+
+    const adults = await users.select({ age: { $gte: 18 } }, { orderBy: { age: 'desc' }, fields: ['name'] });
+    expect(adults).toEqual([{ name: 'Onur' }, { name: 'Ali' }]);
+    expect((await users.selectOne({ role: 'admin' }))?._id).toBeDefined();
+    expect(await users.distinct('role')).toEqual(['admin', 'user']);
+    expect(await users.query().where('age', '<', 20).count()).toBe(1);
+  });
+
+  it('should infer the row type from a runtime schema', async () => {
+    const products = db.model('products', { sku: 'string', stock: { type: 'integer', default: 0 } });
+    await products.insert({ sku: 'A1', stock: 3 });
+    const row = await products.selectOne({ sku: 'A1' });
+    const stock: number | undefined = row?.stock;
+    expect(stock).toBe(3);
+  });
+
+  it('should only require columns that are not nullable', async () => {
+    const orders = db.model('orders', { no: { type: 'integer', nullable: false }, note: 'text' });
+    await orders.insert({ no: 1 });
+    const typeChecks = () => {
+      // @ts-expect-error no is not nullable
+      orders.insert({ note: 'x' });
+    };
+    expect(typeof typeChecks).toBe('function');
+    expect((await orders.selectOne({ no: 1 }))?.note).toBeUndefined();
+  });
+
+  it('should reject unknown fields and mismatched values at compile time', () => {
+    const users = db.model<User>('users');
+    const typeChecks = () => {
+      // @ts-expect-error unknown field in where
+      users.select({ nmae: 'Onur' });
+      // @ts-expect-error wrong value type
+      users.update({ age: 'old' }, { name: 'Onur' });
+      // @ts-expect-error only numeric fields can be incremented
+      users.increment({ name: 1 });
+      // @ts-expect-error role is a union of literals
+      users.insert({ name: 'x', age: 1, role: 'owner' });
+    };
+    expect(typeof typeChecks).toBe('function');
+  });
+});
@@ -0,0 +1,279 @@
+import { matchesWhere, compileWhere, whereColumns, likeToRegExp, compileSelectOptions, queryRows, withFieldPresent, distinctValues, compileAggregate, compileDistinct, aggregateRows, batchSizeOf, keysetQuery, toPage, getPath, assignPaths, incrementPaths, pathColumns, compileAssignments, SqlDialect } from '../../database/query';
+
+const sqlite: SqlDialect = {
+  quote: (f) => `"${f}"`,
+  placeholder: () => '?',
+  serialize: (v) => v,
+  numeric: (col) => `CAST(${col} AS NUMERIC)`,
+  noLimit: '-1',
+  json: {
+    extract: (col, keys) => `json_extract(${col}, '$.${keys.join('.')}')`,
+    document: (col) => `COALESCE(${col}, '{}')`,
+    assign: (doc, keys, value) => `json_set(${doc}, '$.${keys.join('.')}', ${value})`,
+    parse: (p) => `json(${p})`,
+    number: (expr) => expr,
+  },
+};
+
+const postgres: SqlDialect = {
+  quote: (f) => `"${f}"`,
+  placeholder: (i) => `$${i}`,
+  serialize: (v) => v,
+  like: 'ILIKE',
+  nulls: true,
+};
+
+describe('Query Engine', () => {
+  describe('matchesWhere()', () => {
+    const row = { name: 'Onur', age: '25', status: 'a', deletedAt: null };
+
+    it('should keep loose equality for plain values', () => {
+      expect(matchesWhere(row, { age: 25 })).toBe(true);
+      expect(matchesWhere(row, { name: 'Onur', status: 'b' })).toBe(false);
+      expect(matchesWhere(row, {})).toBe(true);
+      expect(matchesWhere(row, null)).toBe(true);
+    });
+
+    it('should compare numerically when the operand is a number', () => {
+      expect(matchesWhere({ age: '9' }, { age: { $lt: 18 } })).toBe(true);
+      expect(matchesWhere(row, { age: { $gt: 18, $lte: 25 } })).toBe(true);
+      expect(matchesWhere(row, { age: { $gte: 26 } })).toBe(false);
+    });
+
+    it('should support $in, $nin, $ne and $exists', () => {
+      expect(matchesWhere(row, { status: { $in: ['a', 'b'] } })).toBe(true);
+      expect(matchesWhere(row, { status: { $nin: ['a'] } })).toBe(false);
+      expect(matchesWhere(row, { status: { $ne: 'b' } })).toBe(true);
+      expect(matchesWhere(row, { deletedAt: { $exists: false } })).toBe(true);
+      expect(matchesWhere(row, { missing: { $exists: true } })).toBe(false);
+    });
+
+    it('should match $like patterns case-insensitively', () => {
+      expect(matchesWhere(row, { name: { $like: 'on%' } })).toBe(true);
+      expect(matchesWhere(row, { name: { $like: 'O_ur' } })).toBe(true);
+      expect(likeToRegExp('a.b%').test('a.bc')).toBe(true);
+      expect(likeToRegExp('a.b%').test('axbc')).toBe(false);
+    });
+
+    it('should evaluate nested $and / $or / $not groups', () => {
+      expect(matchesWhere(row, { $or: [{ status: 'b' }, { age: { $gte: 25 } }] })).toBe(true);
+      expect(matchesWhere(row, { $and: [{ name: 'Onur' }, { $not: { status: 'a' } }] })).toBe(false);
+      expect(matchesWhere(row, { $or: [] })).toBe(false);
+      expect(matchesWhere(row, { $and: [] })).toBe(true);
+      expect(() => matchesWhere(row, { $or: { status: 'a' } } as any)).toThrow('$or');
+    });
+
+    it('should reject unknown operators', () => {
+      expect(() => matchesWhere(row, { age: { $regex: 'x' } })).toThrow('$regex');
+    });
+  });
+
+  describe('compileWhere()', () => {
+    it('should compile equality and operators with positional parameters', () => {
+      const { whereClause, values } = compileWhere({ name: 'Onur', age: { $gt: 18 }, status: { $in: ['a', 'b'] } }, sqlite);
+      expect(whereClause).toBe('WHERE "name" = ? AND CAST("age" AS NUMERIC) > ? AND "status" IN (?, ?)');
+      expect(values).toEqual(['Onur', 18, 'a', 'b']);
+    });
+
+    it('should number parameters after the given offset', () => {
+      const { whereClause, values } = compileWhere({ name: { $like: 'on%' }, deletedAt: { $exists: false } }, postgres, 2);
+      expect(whereClause).toBe('WHERE "name" ILIKE $3 AND "deletedAt" IS NULL');
+      expect(values).toEqual(['on%']);
+    });
+
+    it('should parenthesize logical groups', () => {
+      const { whereClause, values } = compileWhere({
+        active: true,
+        $or: [{ role: 'admin' }, { age: { $gt: 18 }, name: { $like: 'o%' } }],
+        $not: { banned: 1 }
+      }, postgres);
+      expect(whereClause).toBe('WHERE "active" = $1 AND (("role" = $2) OR ("age" > $3 AND "name" ILIKE $4)) AND NOT COALESCE(("banned" = $5), 1 = 0)');
+      expect(values).toEqual([true, 'admin', 18, 'o%', 1]);
+      expect(compileWhere({ $or: [] }, sqlite).whereClause).toBe('WHERE 1 = 0');
+    });
+
+    it('should handle null comparisons and empty sets', () => {
+      expect(compileWhere({ a: null }, sqlite).whereClause).toBe('WHERE "a" IS NULL');
+      expect(compileWhere({ a: { $ne: 1 } }, sqlite).whereClause).toBe('WHERE ("a" <> ? OR "a" IS NULL)');
+      expect(compileWhere({ a: { $in: [] } }, sqlite).whereClause).toBe('WHERE 1 = 0');
+      expect(compileWhere({}, sqlite)).toEqual({ whereClause: '', values: [] });
+    });
+  });
+
+  describe('compileSelectOptions()', () => {
+    it('should build column list, ORDER BY, LIMIT and OFFSET', () => {
+      expect(compileSelectOptions({ fields: ['a', 'b'], orderBy: { a: 'desc' }, limit: 5, offset: 10 }, postgres))
+        .toEqual({ columns: '"a", "b"', suffix: ' ORDER BY "a" DESC NULLS LAST LIMIT 5 OFFSET 10' });
+      expect(compileSelectOptions({ orderBy: { a: 'asc' }, offset: 3 }, sqlite))
+        .toEqual({ columns: '*', suffix: ' ORDER BY CAST("a" AS NUMERIC) ASC, "a" ASC LIMIT -1 OFFSET 3' });
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => compileSelectOptions({ limit: -1 }, sqlite)).toThrow('limit');
+      expect(() => compileSelectOptions({ offset: 1.5 }, sqlite)).toThrow('offset');
+    });
+  });
+
+  describe('queryRows()', () => {
+    const rows = [
+      { name: 'c', score: '100' },
+      { name: 'a', score: 9 },
+      { name: 'b', score: null },
+      { name: 'd', score: 25 }
+    ];
+
+    it('should sort numerically with nulls first', () => {
+      expect(queryRows(rows, null, { orderBy: { score: 'asc' } }).map(r => r.name)).toEqual(['b', 'a', 'd', 'c']);
+      expect(queryRows(rows, null, { orderBy: { score: 'desc' } }).map(r => r.name)).toEqual(['c', 'd', 'a', 'b']);
+    });
+
+    it('should filter, paginate and project', () => {
+      expect(queryRows(rows, { score: { $exists: true } }, { limit: 1, offset: 1, fields: ['name'] })).toEqual([{ name: 'a' }]);
+      expect(queryRows(rows, null, { limit: 0 })).toEqual([]);
+    });
+  });
+
+  describe('distinct helpers', () => {
+    it('should add a presence filter to the where clause', () => {
+      expect(withFieldPresent(null, 'city')).toEqual({ city: { $exists: true } });
+      expect(withFieldPresent({ a: 1 }, 'city')).toEqual({ $and: [{ a: 1 }, { city: { $exists: true } }] });
+    });
+
+    it('should collect distinct non-null values', () => {
+      expect(distinctValues([{ c: 'x' }, { c: 'y' }, { c: 'x' }, { c: null }, {}], 'c')).toEqual(['x', 'y']);
+    });
+  });
+
+  describe('aggregation', () => {
+    it('should compile GROUP BY with a having subquery', () => {
+      const { sql, values } = compileAggregate('"orders"', {
+        groupBy: 'city',
+        metrics: { total: { $sum: 'amount' }, n: { $count: '*' } },
+        where: { status: 'paid' },
+        having: { total: { $gt: 100 } }
+      }, postgres);
+      expect(sql).toBe('SELECT * FROM (SELECT "city" AS "city", SUM("amount") AS "total", COUNT(*) AS "n" FROM "orders" WHERE "status" = $1 GROUP BY "city") AS "_agg" WHERE "total" > $2');
+      expect(values).toEqual(['paid', 100]);
+    });
+
+    it('should aggregate rows in memory', () => {
+      const rows = [{ c: 'x', v: '2' }, { c: 'y', v: 5 }, { c: 'x', v: 4 }, { c: 'y', v: null }];
+      expect(aggregateRows(rows, { groupBy: 'c', metrics: { s: { $sum: 'v' }, a: { $avg: 'v' }, n: { $count: 'v' } } }))
+        .toEqual([{ c: 'x', s: 6, a: 3, n: 2 }, { c: 'y', s: 5, a: 5, n: 1 }]);
+      expect(aggregateRows([], { metrics: { m: { $max: 'v' } } })).toEqual([{ m: null }]);
+      expect(() => aggregateRows(rows, { metrics: { bad: { $median: 'v' } as any } })).toThrow('bad');
+    });
+  });
+
+  describe('keyset pagination', () => {
+    it('should append _id and turn the cursor into a where clause', () => {
+      const first = keysetQuery({ orderBy: { score: 'desc' }, limit: 2 });
+      expect(first).toEqual({ where: null, orderBy: { score: 'desc', _id: 'asc' }, limit: 2 });
+
+      const page = toPage([{ _id: '4', score: 9 }, { _id: '7', score: 9 }, { _id: 1, score: 3 }], first.orderBy, 2);
+      expect(page.items).toHaveLength(2);
+      expect(page.hasMore).toBe(true);
+
+      const next = keysetQuery({ where: { active: true }, orderBy: { score: 'desc' }, after: page.nextCursor, limit: 2 });
+      expect(next.where).toEqual({
+        $and: [{ active: true }, {
+          $or: [
+            { $and: [{ $or: [{ score: { $lt: 9 } }, { score: { $exists: false } }] }] },
+            { $and: [{ score: 9 }, { _id: { $gt: 7 } }] }
+          ]
+        }]
+      });
+    });
+
+    it('should order NULL sort keys first ascending', () => {
+      const page = toPage([{ _id: 1, score: null }, { _id: 2, score: 1 }], { score: 'asc', _id: 'asc' }, 1);
+      const rows = [{ _id: 1, score: null }, { _id: 2, score: 1 }, { _id: 3, score: null }];
+      const { where } = keysetQuery({ orderBy: { score: 'asc' }, after: page.nextCursor });
+      expect(rows.filter(r => matchesWhere(r, where)).map(r => r._id)).toEqual([2, 3]);
+      expect(toPage(rows, { _id: 'asc' }, 5)).toEqual({ items: rows, nextCursor: null, hasMore: false });
+    });
+
+    it('should reject malformed cursors and limits', () => {
+      expect(() => keysetQuery({ after: 'not-a-cursor' })).toThrow('imleci');
+      expect(() => keysetQuery({ limit: 0 })).toThrow('limit');
+    });
+  });
+
+  describe('batchSizeOf()', () => {
+    it('should default and validate the batch size', () => {
+      expect(batchSizeOf()).toBe(500);
+      expect(batchSizeOf({ batchSize: 50 })).toBe(50);
+      expect(() => batchSizeOf({ batchSize: 0 })).toThrow('batchSize');
+    });
+  });
+
+  describe('dot-paths', () => {
+    it('should read nested fields, including objects stored as JSON text', () => {
+      const row = { profile: { city: 'Ankara' }, settings: '{"theme":"dark","size":{"w":2}}' };
+      expect(getPath(row, 'profile.city')).toBe('Ankara');
+      expect(getPath(row, 'settings.size.w')).toBe(2);
+      expect(getPath(row, 'profile.city.x')).toBeUndefined();
+      expect(matchesWhere(row, { 'settings.theme': 'dark', 'profile.city': { $like: 'an%' } })).toBe(true);
+    });
+
+    it('should update and increment nested fields without mutating the original objects', () => {
+      const row: any = { _id: 1, profile: { city: 'Ankara', zip: '06' }, stats: '{"visits":2}' };
+      const updated = assignPaths({ ...row }, { 'profile.city': 'İzmir', 'address.geo.lat': 38 });
+      expect(updated.profile).toEqual({ city: 'İzmir', zip: '06' });
+      expect(updated.address).toEqual({ geo: { lat: 38 } });
+      expect(row.profile.city).toBe('Ankara');
+      expect(incrementPaths({ ...row }, { 'stats.visits': 3, 'stats.likes': 1 }).stats).toEqual({ visits: 5, likes: 1 });
+    });
+
+    it('should compile nested conditions and assignments per JSON column', () => {
+      expect(compileWhere({ 'profile.age': { $gt: 18 } }, sqlite).whereClause)
+        .toBe(`WHERE CAST(json_extract("profile", '$.age') AS NUMERIC) > ?`);
+      const { set, values } = compileAssignments({ name: 'x', 'settings.theme': 'dark', 'settings.lang': 'tr' }, sqlite);
+      expect(set).toBe(`"name" = ?, "settings" = json_set(json_set(COALESCE("settings", '{}'), '$.theme', json(?)), '$.lang', json(?))`);
+      expect(values).toEqual(['x', '"dark"', '"tr"']);
+      expect(compileAssignments({ 'stats.visits': 1 }, sqlite, true).set)
+        .toBe(`"stats" = json_set(COALESCE("stats", '{}'), '$.visits', COALESCE(CAST(json_extract("stats", '$.visits') AS NUMERIC), 0) + ?)`);
+      expect(pathColumns({ 'settings.theme': 'dark', name: 'x' })).toEqual({ settings: {}, name: 'x' });
+    });
+
+    it('should apply the $inc part of an update as increments', () => {
+      expect(assignPaths({ _id: 1, n: 2 } as any, { name: 'x', $inc: { n: 3, 'stats.v': 1 } })).toEqual({ _id: 1, n: 5, name: 'x', stats: { v: 1 } });
+      const { set, values } = compileAssignments({ name: 'x', $inc: { _version: 1 } }, sqlite);
+      expect(set).toBe(`"name" = ?, "_version" = COALESCE(CAST("_version" AS NUMERIC), 0) + ?`);
+      expect(values).toEqual(['x', 1]);
+      expect(pathColumns({ name: 'x', $inc: { _version: 1 } })).toEqual({ name: 'x', _version: 1 });
+    });
+
+    it('should apply field operators to arrays and objects', () => {
+      const row: any = { tags: '["a","b"]', settings: { theme: 'light', lang: 'tr' } };
+      assignPaths(row, { $push: { tags: 'c' }, $pull: { tags: 'a' }, $addToSet: { roles: { id: 1 } }, $merge: { settings: { theme: 'dark' } }, $unset: { 'settings.lang': true } });
+      expect(row).toEqual({ tags: ['b', 'c'], roles: [{ id: 1 }], settings: { theme: 'dark' } });
+      assignPaths(row, { $addToSet: { roles: { id: 1 } } });
+      expect(row.roles).toHaveLength(1);
+      expect(() => assignPaths(row, { $push: { settings: 1 } })).toThrow('settings');
+      expect(pathColumns({ $push: { 'profile.tags': 'x' } })).toEqual({ profile: {} });
+    });
+
+    it('should group and aggregate on nested fields', () => {
+      const rows = [{ profile: { city: 'x' }, stats: { v: 2 } }, { profile: '{"city":"y"}', stats: { v: 5 } }, { profile: { city: 'x' }, stats: { v: 4 } }];
+      expect(aggregateRows(rows, { groupBy: 'profile.city', metrics: { s: { $sum: 'stats.v' }, n: { $count: 'stats.v' } } }))
+        .toEqual([{ 'profile.city': 'x', s: 6, n: 2 }, { 'profile.city': 'y', s: 5, n: 1 }]);
+      expect(compileAggregate('"t"', { groupBy: 'profile.city', metrics: { s: { $sum: 'stats.v' } } }, sqlite).sql)
+        .toBe(`SELECT json_extract("profile", '$.city') AS "profile.city", SUM(CAST(json_extract("stats", '$.v') AS NUMERIC)) AS "s" FROM "t"  GROUP BY json_extract("profile", '$.city')`);
+      expect(compileDistinct('"t"', 'profile.city', null, sqlite).sql)
+        .toBe(`SELECT DISTINCT json_extract("profile", '$.city') AS "profile.city" FROM "t" WHERE json_extract("profile", '$.city') IS NOT NULL`);
+    });
+
+    it('should reject paths on dialects without JSON support and conflicting assignments', () => {
+      expect(() => compileWhere({ 'a.b': 1 }, postgres)).toThrow('a.b');
+      expect(() => compileAssignments({ settings: {}, 'settings.theme': 'dark' }, sqlite)).toThrow('settings');
+    });
+  });
+
+  describe('whereColumns()', () => {
+    it('should map operator objects to sample values', () => {
+      expect(whereColumns({ name: 'x', age: { $gt: 1 }, tags: { $exists: true } })).toEqual({ name: 'x', age: 1, tags: null });
+      expect(whereColumns({ $or: [{ a: 1 }, { $not: { b: 'x' } }] })).toEqual({ a: 1, b: 'x' });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { QueryBuilder } from '../../database/queryBuilder';
+
+describe('QueryBuilder', () => {
+  const query = () => new QueryBuilder({} as any, 'users');
+
+  it('should compile where / orWhere into AND groups joined by OR', () => {
+    const { where, options } = query()
+      .where('age', '>', 18).where('active', true)
+      .orWhere('role', 'admin')
+      .orderBy('createdAt', 'desc').limit(20).offset(5)
+      .include('orders').include('profile')
+      .toQuery();
+    expect(where).toEqual({ $or: [{ $and: [{ age: { $gt: 18 } }, { active: true }] }, { role: 'admin' }] });
+    expect(options).toEqual({ orderBy: { createdAt: 'desc' }, limit: 20, offset: 5, include: ['orders', 'profile'] });
+  });
+
+  it('should map operators and helpers to where syntax', () => {
+    expect(query().where('a', '=', 1).where('b', '<>', 2).where('c', 'like', 'x%').toQuery().where)
+      .toEqual({ $and: [{ a: 1 }, { b: { $ne: 2 } }, { c: { $like: 'x%' } }] });
+    expect(query().whereIn('a', [1]).whereNotIn('b', [2]).toQuery().where)
+      .toEqual({ $and: [{ a: { $in: [1] } }, { b: { $nin: [2] } }] });
+    expect(query().whereNull('a').orWhere(q => q.whereNotNull('b')).toQuery().where)
+      .toEqual({ $or: [{ a: { $exists: false } }, { b: { $exists: true } }] });
+  });
+
+  it('should nest callback groups and accept plain where objects', () => {
+    const { where } = query().where('active', true).where(q => q.where('role', 'admin').orWhere('age', '>=', 65)).toQuery();
+    expect(where).toEqual({ $and: [{ active: true }, { $or: [{ role: 'admin' }, { age: { $gte: 65 } }] }] });
+    expect(query().where({ city: 'Ankara' }).toQuery().where).toEqual({ city: 'Ankara' });
+    expect(query().toQuery().where).toEqual({});
+  });
+
+  it('should reject unknown operators', () => {
+    expect(() => query().where('a', '~=' as any, 1)).toThrow('Geçersiz operatör');
+  });
+});
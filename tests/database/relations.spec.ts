@@ -0,0 +1,58 @@
+import { normalizeRelation, relationColumns, relationKeys, attachRelated, splitIncludes, includeTree, compileJoin, attachJoined } from '../../database/relations';
+import { SqlDialect } from '../../database/query';
+
+describe('Relations', () => {
+  const user = normalizeRelation('orders', 'user', { type: 'belongsTo', table: 'users', foreignKey: 'userId' });
+  const items = normalizeRelation('orders', 'items', { type: 'hasMany', table: 'items', foreignKey: 'orderId' });
+
+  it('should default the key to _id and reject invalid definitions', () => {
+    expect(user.key).toBe('_id');
+    expect(relationColumns(user)).toEqual({ local: 'userId', remote: '_id' });
+    expect(relationColumns(items)).toEqual({ local: '_id', remote: 'orderId' });
+    expect(() => normalizeRelation('orders', 'x', { type: 'manyToMany' as any, table: 'x', foreignKey: 'y' })).toThrow('orders.x');
+    expect(() => normalizeRelation('orders', 'x', { type: 'hasOne', table: 'x' } as any)).toThrow('foreignKey');
+  });
+
+  it('should group nested includes under their first relation', () => {
+    expect(splitIncludes(['items.product', 'user', 'items.product.vendor'])).toEqual({ items: ['product', 'product.vendor'], user: [] });
+  });
+
+  it('should collect distinct keys and attach related rows by text comparison', () => {
+    const orders: any[] = [{ _id: 1, userId: '7' }, { _id: 2, userId: 7 }, { _id: 3, userId: null }];
+    expect(relationKeys(orders, user)).toEqual([7]);
+
+    attachRelated(orders, 'user', user, [{ _id: 7, name: 'Onur' }]);
+    expect(orders.map(o => o.user?.name ?? null)).toEqual(['Onur', 'Onur', null]);
+
+    attachRelated(orders, 'items', items, [{ orderId: 1, sku: 'a' }, { orderId: '1', sku: 'b' }, { orderId: 2, sku: 'c' }]);
+    expect(orders.map(o => o.items.map((i: any) => i.sku))).toEqual([['a', 'b'], ['c'], []]);
+  });
+
+  it('should join a relation and its nested relations in one query', () => {
+    const product = normalizeRelation('items', 'product', { type: 'belongsTo', table: 'products', foreignKey: 'productId' });
+    const [node] = includeTree({ orders: { items }, items: { product } }, 'orders', ['items.product']);
+    expect(() => includeTree({ orders: { items } }, 'orders', ['user'])).toThrow('user');
+
+    const dialect: SqlDialect = { quote: f => `"${f}"`, placeholder: () => '?', serialize: v => v };
+    const columns = { orders: ['_id'], items: ['_id', 'orderId', 'productId'], products: ['_id', 'name', 'deletedAt'] };
+    const { sql, values, joined } = compileJoin('orders', node, [1, 2], dialect, columns, ['products'])!;
+    expect(sql).toBe('SELECT "p"."_id" AS "_parent", "j0"."_id" AS "j0._id", "j0"."orderId" AS "j0.orderId", "j0"."productId" AS "j0.productId", '
+      + '"j1"."_id" AS "j1._id", "j1"."name" AS "j1.name", "j1"."deletedAt" AS "j1.deletedAt" FROM "orders" AS "p" '
+      + 'LEFT JOIN "items" AS "j0" ON "j0"."orderId" = "p"."_id" LEFT JOIN "products" AS "j1" ON "j1"."_id" = "j0"."productId" AND "j1"."deletedAt" IS NULL '
+      + 'WHERE "p"."_id" IN (?, ?) ORDER BY "j0"."_id", "j1"."_id"');
+    expect(values).toEqual([1, 2]);
+    expect(compileJoin('orders', node, [1], dialect, { ...columns, products: [] })).toBeNull();
+
+    const orders: any[] = [{ _id: 1 }, { _id: 2 }];
+    attachJoined(orders, joined, [
+      { _parent: 1, 'j0._id': 10, 'j0.orderId': 1, 'j0.productId': 5, 'j1._id': 5, 'j1.name': 'pen', 'j1.deletedAt': null },
+      { _parent: 1, 'j0._id': 11, 'j0.orderId': 1, 'j0.productId': 6, 'j1._id': null, 'j1.name': null, 'j1.deletedAt': null },
+      { _parent: 2, 'j0._id': null, 'j0.orderId': null, 'j0.productId': null, 'j1._id': null, 'j1.name': null, 'j1.deletedAt': null },
+    ], (_, row) => row);
+    expect(orders[0].items).toEqual([
+      { _id: 10, orderId: 1, productId: 5, product: { _id: 5, name: 'pen', deletedAt: null } },
+      { _id: 11, orderId: 1, productId: 6, product: null },
+    ]);
+    expect(orders[1].items).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { normalizeSchema, createColumnsSql, missingColumnsSql, decodeRow, encodeRow, SchemaDialect } from '../../database/schema';
+
+const dialect: SchemaDialect = {
+  types: { string: 'VARCHAR(255)', text: 'TEXT', integer: 'INT', number: 'DOUBLE', boolean: 'BOOLEAN', date: 'DATETIME', json: 'JSON' },
+  quote: (name) => `"${name}"`,
+  untyped: (name) => `"${name}" TEXT`,
+  defaultValue: (literal, type) => type === 'json' ? `(${literal})` : literal,
+};
+
+describe('Table Schemas', () => {
+  const schema = normalizeSchema('users', {
+    email: { type: 'string', primaryKey: true },
+    age: 'integer',
+    active: { type: 'boolean', nullable: false, default: true },
+    prefs: { type: 'json', default: { theme: 'dark' } },
+    note: { type: 'text', default: "it's" }
+  });
+
+  it('should expand shorthands and reject invalid definitions', () => {
+    expect(schema.email).toEqual({ type: 'string', nullable: false, default: undefined, primaryKey: true });
+    expect(schema.age).toEqual({ type: 'integer', nullable: true, default: undefined, primaryKey: false });
+    expect(() => normalizeSchema('users', { age: 'int' as any })).toThrow('users.age');
+    expect(() => normalizeSchema('users', { _id: 'integer' })).toThrow('_id');
+  });
+
+  it('should render typed columns for CREATE TABLE', () => {
+    expect(createColumnsSql(schema, { extra: 1, _id: 5, age: 3 }, dialect)).toEqual([
+      '"email" VARCHAR(255) NOT NULL',
+      '"age" INT',
+      '"active" BOOLEAN NOT NULL DEFAULT TRUE',
+      `"prefs" JSON DEFAULT ('{"theme":"dark"}')`,
+      `"note" TEXT DEFAULT 'it''s'`,
+      '"extra" TEXT',
+      'UNIQUE ("email")'
+    ]);
+  });
+
+  it('should only add NOT NULL to new columns that have a default', () => {
+    expect(missingColumnsSql(schema, { extra: 1 }, ['email', 'age', 'prefs', 'note'], dialect))
+      .toEqual(['"active" BOOLEAN NOT NULL DEFAULT TRUE', '"extra" TEXT']);
+    expect(missingColumnsSql(normalizeSchema('t', { code: { type: 'string', nullable: false } }), {}, [], dialect))
+      .toEqual(['"code" VARCHAR(255)']);
+  });
+
+  it('should decode declared columns by type and trial-parse the rest', () => {
+    const dated = normalizeSchema('t', { code: 'string', n: 'number', ok: 'boolean', at: 'date', data: 'json' });
+    const row = decodeRow({ code: '123', n: '1.5', ok: 0, at: '2024-01-02 03:04:05', data: '"7"', other: '8' }, dated);
+    expect(row).toEqual({ code: '123', n: 1.5, ok: false, at: new Date('2024-01-02T03:04:05Z'), data: '7', other: 8 });
+    expect(encodeRow({ data: '7', code: '1' }, dated)).toEqual({ data: '"7"', code: '1' });
+  });
+});
@@ -0,0 +1,31 @@
+import { scopeDeleted, withDeleted, stampInsert, stampUpdate } from '../../database/tableOptions';
+import { matchesWhere } from '../../database/query';
+
+describe('Table Options', () => {
+  it('should hide soft-deleted rows unless the where asks for them', () => {
+    const rows = [{ name: 'a' }, { name: 'b', deletedAt: new Date() }, { name: 'c', deletedAt: null }];
+    const names = (where: any) => rows.filter(r => matchesWhere(r, where)).map(r => r.name);
+
+    expect(names(scopeDeleted(null))).toEqual(['a', 'c']);
+    expect(names(scopeDeleted({ name: { $ne: 'a' } }))).toEqual(['c']);
+    expect(names(scopeDeleted({ deletedAt: { $exists: true } }))).toEqual(['b']);
+    expect(names(scopeDeleted(withDeleted({})))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep the withDeleted mark out of the where fields', () => {
+    const where = withDeleted({ name: 'a' });
+    expect(Object.keys(where)).toEqual(['name']);
+    expect(JSON.stringify(where)).toBe('{"name":"a"}');
+    const copy = { ...where };
+    expect(scopeDeleted(copy)).toBe(copy);
+  });
+
+  it('should fill in missing timestamps only', () => {
+    const now = new Date(1000);
+    const given = new Date(0);
+    expect(stampInsert({ name: 'a' }, now)).toEqual({ name: 'a', createdAt: now, updatedAt: now });
+    expect(stampInsert({ createdAt: given }, now)).toEqual({ createdAt: given, updatedAt: now });
+    expect(stampUpdate({ views: 1 }, now)).toEqual({ views: 1, updatedAt: now });
+    expect(stampUpdate({ updatedAt: given }, now)).toEqual({ updatedAt: given });
+  });
+});